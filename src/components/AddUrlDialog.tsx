@@ -1,30 +1,280 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Eye } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { computeNextCheckAt, DEFAULT_TIMEZONE, getNextCronRuns, validateCronSchedule } from "@/lib/schedule";
+
+interface SelectorPreview {
+  cleanText: string;
+  contentLength: number;
+  statusCode: number;
+}
+
+// Settings of an existing URL that the dialog can edit
+export interface EditableUrl {
+  id: string;
+  url: string;
+  name: string | null;
+  check_frequency_hours: number;
+  schedule_cron: string | null;
+  schedule_timezone: string;
+  last_checked_at: string | null;
+  alert_webhook_url: string | null;
+  alert_webhook_payload: Json | null;
+  yellow_threshold: number;
+  red_threshold: number;
+  failure_yellow_threshold: number;
+  failure_red_threshold: number;
+  expected_status_codes: number[];
+  cert_expiry_alert_days: number;
+  use_javascript_rendering: boolean;
+  capture_screenshot: boolean;
+  visual_diff_tolerance: number;
+  visual_yellow_threshold: number | null;
+  visual_red_threshold: number | null;
+  include_selectors: string[];
+  exclude_selectors: string[];
+}
+
+type UrlSettings = Omit<EditableUrl, "id" | "last_checked_at">;
+
+interface ChangeLogEntry {
+  id: string;
+  changes: Record<string, { from: Json; to: Json }>;
+  changed_at: string;
+}
+
+const FIELD_LABELS: Record<keyof UrlSettings, string> = {
+  url: "URL",
+  name: "Name",
+  check_frequency_hours: "Check frequency (hours)",
+  schedule_cron: "Cron schedule",
+  schedule_timezone: "Time zone",
+  alert_webhook_url: "Webhook URL",
+  alert_webhook_payload: "Webhook payload",
+  yellow_threshold: "Yellow threshold",
+  red_threshold: "Red threshold",
+  failure_yellow_threshold: "Failures before yellow",
+  failure_red_threshold: "Failures before red",
+  expected_status_codes: "Expected status codes",
+  cert_expiry_alert_days: "Certificate expiry alert (days)",
+  use_javascript_rendering: "JavaScript rendering",
+  capture_screenshot: "Full-page screenshot",
+  visual_diff_tolerance: "Visual diff tolerance",
+  visual_yellow_threshold: "Visual yellow threshold",
+  visual_red_threshold: "Visual red threshold",
+  include_selectors: "Include selectors",
+  exclude_selectors: "Exclude selectors",
+};
+
+// One selector per line, blank lines ignored
+const parseSelectors = (value: string): string[] =>
+  value
+    .split("\n")
+    .map((selector) => selector.trim())
+    .filter(Boolean);
+
+// Comma or whitespace separated; anything that is not a number is kept as NaN so validation rejects it
+const parseStatusCodes = (value: string): number[] =>
+  value
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+
+const isHttpUrl = (value: string) => {
+  try {
+    const parsed = new URL(value);
+    return parsed.protocol === "http:" || parsed.protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+const formatChangeValue = (value: Json) => {
+  if (value === null || value === "" || (Array.isArray(value) && value.length === 0)) return "(none)";
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+// Returns a description of the first invalid setting, or null when everything is valid
+const validateSettings = (settings: UrlSettings): string | null => {
+  if (!isHttpUrl(settings.url)) return "URL must start with http:// or https://";
+  if (!Number.isInteger(settings.check_frequency_hours) || settings.check_frequency_hours < 1) {
+    return "Check frequency must be a whole number of hours (at least 1)";
+  }
+  for (const [label, value] of [["Yellow", settings.yellow_threshold], ["Red", settings.red_threshold]] as const) {
+    if (Number.isNaN(value) || value < 0 || value > 1) return `${label} threshold must be between 0 and 1`;
+  }
+  if (settings.schedule_cron) {
+    const scheduleError = validateCronSchedule(settings.schedule_cron, settings.schedule_timezone);
+    if (scheduleError) return scheduleError;
+  }
+  if (settings.yellow_threshold >= settings.red_threshold) return "Yellow threshold must be lower than red threshold";
+  for (const value of [settings.failure_yellow_threshold, settings.failure_red_threshold]) {
+    if (!Number.isInteger(value) || value < 1) return "Failure thresholds must be whole numbers of at least 1";
+  }
+  if (settings.failure_yellow_threshold > settings.failure_red_threshold) {
+    return "Failures before yellow cannot exceed failures before red";
+  }
+  if (settings.expected_status_codes.length === 0) return "Enter at least one expected status code";
+  for (const code of settings.expected_status_codes) {
+    if (!Number.isInteger(code) || code < 100 || code > 599) {
+      return "Expected status codes must be whole numbers between 100 and 599";
+    }
+  }
+  if (!Number.isInteger(settings.cert_expiry_alert_days) || settings.cert_expiry_alert_days < 0) {
+    return "Certificate expiry alert must be a whole number of days (0 to disable)";
+  }
+  if (Number.isNaN(settings.visual_diff_tolerance) || settings.visual_diff_tolerance < 0 || settings.visual_diff_tolerance > 1) {
+    return "Visual diff tolerance must be between 0 and 1";
+  }
+  if ((settings.visual_yellow_threshold === null) !== (settings.visual_red_threshold === null)) {
+    return "Set both visual thresholds, or neither to turn visual alerting off";
+  }
+  if (settings.visual_yellow_threshold !== null && settings.visual_red_threshold !== null) {
+    for (const value of [settings.visual_yellow_threshold, settings.visual_red_threshold]) {
+      if (Number.isNaN(value) || value < 0 || value > 1) return "Visual thresholds must be between 0 and 1";
+    }
+    if (settings.visual_yellow_threshold >= settings.visual_red_threshold) {
+      return "Visual yellow threshold must be lower than visual red threshold";
+    }
+  }
+  if (settings.alert_webhook_url && !isHttpUrl(settings.alert_webhook_url)) {
+    return "Webhook URL must start with http:// or https://";
+  }
+  return null;
+};
 
 interface AddUrlDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onUrlAdded?: () => void;
+  onUrlSaved?: () => void;
+  // When set, the dialog edits this URL instead of adding a new one
+  editingUrl?: EditableUrl | null;
 }
 
-export const AddUrlDialog = ({ open, onOpenChange, onUrlAdded }: AddUrlDialogProps) => {
+export const AddUrlDialog = ({ open, onOpenChange, onUrlSaved, editingUrl }: AddUrlDialogProps) => {
   const [url, setUrl] = useState("");
   const [name, setName] = useState("");
   const [checkFrequency, setCheckFrequency] = useState("168");
+  const [scheduleMode, setScheduleMode] = useState<"interval" | "cron">("interval");
+  const [scheduleCron, setScheduleCron] = useState("");
+  const [scheduleTimezone, setScheduleTimezone] = useState(DEFAULT_TIMEZONE);
   const [webhookUrl, setWebhookUrl] = useState("");
   const [webhookPayload, setWebhookPayload] = useState("");
   const [yellowThreshold, setYellowThreshold] = useState("0.3");
   const [redThreshold, setRedThreshold] = useState("0.5");
+  const [failureYellowThreshold, setFailureYellowThreshold] = useState("1");
+  const [failureRedThreshold, setFailureRedThreshold] = useState("3");
+  const [expectedStatusCodes, setExpectedStatusCodes] = useState("200");
+  const [certExpiryAlertDays, setCertExpiryAlertDays] = useState("14");
   const [useJavaScriptRendering, setUseJavaScriptRendering] = useState(false);
+  const [captureScreenshot, setCaptureScreenshot] = useState(false);
+  const [visualDiffTolerance, setVisualDiffTolerance] = useState("0.1");
+  const [visualYellowThreshold, setVisualYellowThreshold] = useState("");
+  const [visualRedThreshold, setVisualRedThreshold] = useState("");
+  const [includeSelectors, setIncludeSelectors] = useState("");
+  const [excludeSelectors, setExcludeSelectors] = useState("");
+  const [preview, setPreview] = useState<SelectorPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [changeLog, setChangeLog] = useState<ChangeLogEntry[]>([]);
   const { toast } = useToast();
+  const isEditing = !!editingUrl;
+
+  // Fill the form from the URL being edited, or reset it to defaults when adding
+  useEffect(() => {
+    if (!open) return;
+
+    setUrl(editingUrl?.url ?? "");
+    setName(editingUrl?.name ?? "");
+    setCheckFrequency(String(editingUrl?.check_frequency_hours ?? 168));
+    setScheduleMode(editingUrl?.schedule_cron ? "cron" : "interval");
+    setScheduleCron(editingUrl?.schedule_cron ?? "");
+    setScheduleTimezone(editingUrl?.schedule_timezone ?? DEFAULT_TIMEZONE);
+    setWebhookUrl(editingUrl?.alert_webhook_url ?? "");
+    setWebhookPayload(editingUrl?.alert_webhook_payload ? JSON.stringify(editingUrl.alert_webhook_payload, null, 2) : "");
+    setYellowThreshold(String(editingUrl?.yellow_threshold ?? 0.3));
+    setRedThreshold(String(editingUrl?.red_threshold ?? 0.5));
+    setFailureYellowThreshold(String(editingUrl?.failure_yellow_threshold ?? 1));
+    setFailureRedThreshold(String(editingUrl?.failure_red_threshold ?? 3));
+    setExpectedStatusCodes((editingUrl?.expected_status_codes ?? [200]).join(", "));
+    setCertExpiryAlertDays(String(editingUrl?.cert_expiry_alert_days ?? 14));
+    setUseJavaScriptRendering(editingUrl?.use_javascript_rendering ?? false);
+    setCaptureScreenshot(editingUrl?.capture_screenshot ?? false);
+    setVisualDiffTolerance(String(editingUrl?.visual_diff_tolerance ?? 0.1));
+    setVisualYellowThreshold(editingUrl?.visual_yellow_threshold != null ? String(editingUrl.visual_yellow_threshold) : "");
+    setVisualRedThreshold(editingUrl?.visual_red_threshold != null ? String(editingUrl.visual_red_threshold) : "");
+    setIncludeSelectors((editingUrl?.include_selectors ?? []).join("\n"));
+    setExcludeSelectors((editingUrl?.exclude_selectors ?? []).join("\n"));
+    setPreview(null);
+    setChangeLog([]);
+
+    if (editingUrl) {
+      supabase
+        .from("monitored_url_changes")
+        .select("id, changes, changed_at")
+        .eq("monitored_url_id", editingUrl.id)
+        .order("changed_at", { ascending: false })
+        .limit(10)
+        .then(({ data, error }) => {
+          if (error) {
+            console.error("Error loading change history:", error);
+            return;
+          }
+          setChangeLog((data || []) as ChangeLogEntry[]);
+        });
+    }
+  }, [open, editingUrl]);
+
+  const cronError = scheduleMode === "cron" && scheduleCron
+    ? validateCronSchedule(scheduleCron, scheduleTimezone)
+    : null;
+  const nextCronRuns = scheduleMode === "cron" && scheduleCron && !cronError
+    ? getNextCronRuns(scheduleCron, scheduleTimezone, 3)
+    : [];
+
+  const handlePreview = async () => {
+    if (!url) return;
+
+    setIsPreviewing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("check-url", {
+        body: {
+          preview: {
+            url,
+            use_javascript_rendering: useJavaScriptRendering,
+            include_selectors: parseSelectors(includeSelectors),
+            exclude_selectors: parseSelectors(excludeSelectors),
+          },
+        },
+      });
+
+      if (error) throw error;
+      if (data.error) throw new Error(data.error);
+
+      setPreview(data);
+    } catch (error) {
+      console.error("Error previewing URL:", error);
+      setPreview(null);
+      toast({
+        title: "Preview failed",
+        description: error instanceof Error ? error.message : "Could not fetch the page",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -46,42 +296,110 @@ export const AddUrlDialog = ({ open, onOpenChange, onUrlAdded }: AddUrlDialogPro
         }
       }
 
-      const { error } = await supabase.from("monitored_urls").insert({
-        url,
+      const settings: UrlSettings = {
+        url: url.trim(),
         name: name || null,
-        check_frequency_hours: parseInt(checkFrequency),
+        check_frequency_hours: Number(checkFrequency),
+        schedule_cron: scheduleMode === "cron" ? scheduleCron.trim() || null : null,
+        schedule_timezone: scheduleTimezone.trim() || DEFAULT_TIMEZONE,
         alert_webhook_url: webhookUrl || null,
         alert_webhook_payload: parsedPayload,
         yellow_threshold: parseFloat(yellowThreshold),
         red_threshold: parseFloat(redThreshold),
+        failure_yellow_threshold: Number(failureYellowThreshold),
+        failure_red_threshold: Number(failureRedThreshold),
+        expected_status_codes: parseStatusCodes(expectedStatusCodes),
+        cert_expiry_alert_days: Number(certExpiryAlertDays),
         use_javascript_rendering: useJavaScriptRendering,
-      });
+        capture_screenshot: useJavaScriptRendering && captureScreenshot,
+        visual_diff_tolerance: parseFloat(visualDiffTolerance),
+        visual_yellow_threshold: visualYellowThreshold.trim() ? parseFloat(visualYellowThreshold) : null,
+        visual_red_threshold: visualRedThreshold.trim() ? parseFloat(visualRedThreshold) : null,
+        include_selectors: parseSelectors(includeSelectors),
+        exclude_selectors: parseSelectors(excludeSelectors),
+      };
 
-      if (error) throw error;
+      let validationError = validateSettings(settings);
+      if (!validationError && scheduleMode === "cron" && !settings.schedule_cron) {
+        validationError = "Enter a cron expression or switch back to a fixed interval";
+      }
+      if (validationError) {
+        toast({
+          title: "Invalid settings",
+          description: validationError,
+          variant: "destructive",
+        });
+        setIsSubmitting(false);
+        return;
+      }
 
-      toast({
-        title: "Success",
-        description: "URL added to monitoring",
-      });
+      if (editingUrl) {
+        // Record only the settings that actually changed
+        const changes: Record<string, { from: Json; to: Json }> = {};
+        for (const key of Object.keys(FIELD_LABELS) as (keyof UrlSettings)[]) {
+          const from = (editingUrl[key] ?? null) as Json;
+          const to = (settings[key] ?? null) as Json;
+          if (JSON.stringify(from) !== JSON.stringify(to)) {
+            changes[key] = { from, to };
+          }
+        }
+
+        if (Object.keys(changes).length > 0) {
+          const scheduleChanged = ["check_frequency_hours", "schedule_cron", "schedule_timezone"].some(
+            (key) => key in changes
+          );
+          // A 304 would skip extraction, so force a full fetch after changing what is fetched or how content
+          // is extracted; validators of the old address say nothing about the new one
+          const extractionChanged = ["url", "use_javascript_rendering", "include_selectors", "exclude_selectors"].some(
+            (key) => key in changes
+          );
+          const { error } = await supabase
+            .from("monitored_urls")
+            .update({
+              ...settings,
+              ...(scheduleChanged && {
+                next_check_at: computeNextCheckAt(settings, editingUrl.last_checked_at).toISOString(),
+              }),
+              ...(extractionChanged && { http_etag: null, http_last_modified: null }),
+            })
+            .eq("id", editingUrl.id);
+
+          if (error) throw error;
+
+          const { error: auditError } = await supabase
+            .from("monitored_url_changes")
+            .insert({ monitored_url_id: editingUrl.id, changes });
+
+          if (auditError) console.error("Error recording change history:", auditError);
+        }
+
+        toast({
+          title: "Saved",
+          description: "Monitoring settings updated",
+        });
+      } else {
+        const { error } = await supabase.from("monitored_urls").insert({
+          ...settings,
+          next_check_at: computeNextCheckAt(settings, null).toISOString(),
+        });
+
+        if (error) throw error;
+
+        toast({
+          title: "Success",
+          description: "URL added to monitoring",
+        });
+      }
 
-      // Reset form
-      setUrl("");
-      setName("");
-      setCheckFrequency("168");
-      setWebhookUrl("");
-      setWebhookPayload("");
-      setYellowThreshold("0.3");
-      setRedThreshold("0.5");
-      setUseJavaScriptRendering(false);
       onOpenChange(false);
       
       // Trigger refresh
-      onUrlAdded?.();
+      onUrlSaved?.();
     } catch (error) {
-      console.error("Error adding URL:", error);
+      console.error("Error saving URL:", error);
       toast({
         title: "Error",
-        description: "Failed to add URL",
+        description: isEditing ? "Failed to update URL" : "Failed to add URL",
         variant: "destructive",
       });
     } finally {
@@ -93,9 +411,11 @@ export const AddUrlDialog = ({ open, onOpenChange, onUrlAdded }: AddUrlDialogPro
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
-          <DialogTitle>Add URL to Monitor</DialogTitle>
+          <DialogTitle>{isEditing ? "Edit Monitored URL" : "Add URL to Monitor"}</DialogTitle>
           <DialogDescription>
-            Configure a URL to monitor for content changes
+            {isEditing
+              ? "Change monitoring settings. Snapshot history is kept."
+              : "Configure a URL to monitor for content changes"}
           </DialogDescription>
         </DialogHeader>
 
@@ -123,20 +443,68 @@ export const AddUrlDialog = ({ open, onOpenChange, onUrlAdded }: AddUrlDialogPro
           </div>
 
           <div>
-            <Label htmlFor="frequency">Check Frequency (hours)</Label>
-            <Input
-              id="frequency"
-              type="number"
-              value={checkFrequency}
-              onChange={(e) => setCheckFrequency(e.target.value)}
-              min="1"
-              required
-            />
-            <p className="text-sm text-muted-foreground mt-1">
-              Default: 168 hours (1 week)
-            </p>
+            <Label htmlFor="schedule-mode">Schedule</Label>
+            <Select value={scheduleMode} onValueChange={(value) => setScheduleMode(value as "interval" | "cron")}>
+              <SelectTrigger id="schedule-mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="interval">Fixed interval</SelectItem>
+                <SelectItem value="cron">Cron expression</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
 
+          {scheduleMode === "interval" ? (
+            <div>
+              <Label htmlFor="frequency">Check Frequency (hours)</Label>
+              <Input
+                id="frequency"
+                type="number"
+                value={checkFrequency}
+                onChange={(e) => setCheckFrequency(e.target.value)}
+                min="1"
+                required
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                Default: 168 hours (1 week)
+              </p>
+            </div>
+          ) : (
+            <div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="cron">Cron Expression</Label>
+                  <Input
+                    id="cron"
+                    value={scheduleCron}
+                    onChange={(e) => setScheduleCron(e.target.value)}
+                    placeholder="5 9 * * 1-5"
+                    className="font-mono"
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="timezone">Time Zone</Label>
+                  <Input
+                    id="timezone"
+                    value={scheduleTimezone}
+                    onChange={(e) => setScheduleTimezone(e.target.value)}
+                    placeholder="America/New_York"
+                    required
+                  />
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                {cronError
+                  ? cronError
+                  : nextCronRuns.length > 0
+                  ? `Next runs: ${nextCronRuns.map((run) => run.toLocaleString()).join(", ")}`
+                  : "minute hour day-of-month month day-of-week, e.g. 5 9 * * 1-5 for weekdays at 09:05"}
+              </p>
+            </div>
+          )}
+
           <div className="flex items-center space-x-2">
             <Switch
               id="javascript-rendering"
@@ -153,6 +521,136 @@ export const AddUrlDialog = ({ open, onOpenChange, onUrlAdded }: AddUrlDialogPro
             </div>
           </div>
 
+          {useJavaScriptRendering && (
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="capture-screenshot"
+                checked={captureScreenshot}
+                onCheckedChange={setCaptureScreenshot}
+              />
+              <div className="flex flex-col">
+                <Label htmlFor="capture-screenshot" className="cursor-pointer">
+                  Capture Full-Page Screenshot
+                </Label>
+                <p className="text-sm text-muted-foreground">
+                  Save a PNG of the rendered page with each snapshot to review layout and image changes.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {useJavaScriptRendering && captureScreenshot && (
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="visual-tolerance">Visual Diff Tolerance</Label>
+                <Input
+                  id="visual-tolerance"
+                  type="number"
+                  step="0.01"
+                  value={visualDiffTolerance}
+                  onChange={(e) => setVisualDiffTolerance(e.target.value)}
+                  min="0"
+                  max="1"
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  Colour difference ignored per pixel
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="visual-yellow">Visual Yellow (optional)</Label>
+                <Input
+                  id="visual-yellow"
+                  type="number"
+                  step="0.01"
+                  value={visualYellowThreshold}
+                  onChange={(e) => setVisualYellowThreshold(e.target.value)}
+                  min="0"
+                  max="1"
+                  placeholder="Off"
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  0.05 = 5% of pixels changed
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="visual-red">Visual Red (optional)</Label>
+                <Input
+                  id="visual-red"
+                  type="number"
+                  step="0.01"
+                  value={visualRedThreshold}
+                  onChange={(e) => setVisualRedThreshold(e.target.value)}
+                  min="0"
+                  max="1"
+                  placeholder="Off"
+                />
+                <p className="text-sm text-muted-foreground mt-1">
+                  0.2 = 20% of pixels changed
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="include-selectors">Include Selectors (optional)</Label>
+              <Textarea
+                id="include-selectors"
+                value={includeSelectors}
+                onChange={(e) => setIncludeSelectors(e.target.value)}
+                placeholder={"main\n#rates-table"}
+                rows={3}
+                className="font-mono text-sm"
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                One CSS selector per line. Only matching elements are monitored.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="exclude-selectors">Exclude Selectors (optional)</Label>
+              <Textarea
+                id="exclude-selectors"
+                value={excludeSelectors}
+                onChange={(e) => setExcludeSelectors(e.target.value)}
+                placeholder={"footer\n.cookie-banner"}
+                rows={3}
+                className="font-mono text-sm"
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                Matching elements are removed before comparing.
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={handlePreview}
+              disabled={!url || isPreviewing}
+              className="gap-1"
+            >
+              <Eye className="h-4 w-4" />
+              {isPreviewing ? "Fetching..." : "Preview Monitored Text"}
+            </Button>
+            {preview && (
+              <div className="mt-2">
+                <p className="text-sm text-muted-foreground mb-1">
+                  Status {preview.statusCode} · {preview.contentLength.toLocaleString()} chars monitored
+                </p>
+                <ScrollArea className="h-40 w-full rounded-md border p-3">
+                  <p className="text-sm whitespace-pre-wrap break-words">
+                    {preview.cleanText || "No text matched the selectors"}
+                  </p>
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+
           <div className="grid grid-cols-2 gap-4">
             <div>
               <Label htmlFor="yellow">Yellow Alert Threshold</Label>
@@ -166,7 +664,7 @@ export const AddUrlDialog = ({ open, onOpenChange, onUrlAdded }: AddUrlDialogPro
                 max="1"
               />
               <p className="text-sm text-muted-foreground mt-1">
-                0.3 = 30% change
+                0.3 = 30% of words changed
               </p>
             </div>
 
@@ -182,7 +680,60 @@ export const AddUrlDialog = ({ open, onOpenChange, onUrlAdded }: AddUrlDialogPro
                 max="1"
               />
               <p className="text-sm text-muted-foreground mt-1">
-                0.5 = 50% change
+                0.5 = 50% of words changed
+              </p>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="failure-yellow">Failed Checks Before Yellow</Label>
+              <Input
+                id="failure-yellow"
+                type="number"
+                value={failureYellowThreshold}
+                onChange={(e) => setFailureYellowThreshold(e.target.value)}
+                min="1"
+              />
+            </div>
+
+            <div>
+              <Label htmlFor="failure-red">Failed Checks Before Red</Label>
+              <Input
+                id="failure-red"
+                type="number"
+                value={failureRedThreshold}
+                onChange={(e) => setFailureRedThreshold(e.target.value)}
+                min="1"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="expected-status-codes">Expected Status Codes</Label>
+              <Input
+                id="expected-status-codes"
+                value={expectedStatusCodes}
+                onChange={(e) => setExpectedStatusCodes(e.target.value)}
+                placeholder="200, 301"
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                Any other status marks the URL as down
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="cert-expiry-alert">Certificate Expiry Alert (days)</Label>
+              <Input
+                id="cert-expiry-alert"
+                type="number"
+                value={certExpiryAlertDays}
+                onChange={(e) => setCertExpiryAlertDays(e.target.value)}
+                min="0"
+              />
+              <p className="text-sm text-muted-foreground mt-1">
+                0 disables the alert
               </p>
             </div>
           </div>
@@ -209,6 +760,27 @@ export const AddUrlDialog = ({ open, onOpenChange, onUrlAdded }: AddUrlDialogPro
             />
           </div>
 
+          {isEditing && changeLog.length > 0 && (
+            <div>
+              <Label>Change History</Label>
+              <div className="mt-1 space-y-2 rounded-md border p-3 text-sm">
+                {changeLog.map((entry) => (
+                  <div key={entry.id}>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(entry.changed_at), { addSuffix: true })}
+                    </p>
+                    {Object.entries(entry.changes).map(([field, change]) => (
+                      <p key={field} className="break-words">
+                        <span className="font-medium">{FIELD_LABELS[field as keyof UrlSettings] ?? field}:</span>{" "}
+                        {formatChangeValue(change.from)} → {formatChangeValue(change.to)}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="flex gap-2 justify-end">
             <Button
               type="button"
@@ -218,7 +790,9 @@ export const AddUrlDialog = ({ open, onOpenChange, onUrlAdded }: AddUrlDialogPro
               Cancel
             </Button>
             <Button type="submit" disabled={isSubmitting}>
-              {isSubmitting ? "Adding..." : "Add URL"}
+              {isEditing
+                ? isSubmitting ? "Saving..." : "Save Changes"
+                : isSubmitting ? "Adding..." : "Add URL"}
             </Button>
           </div>
         </form>
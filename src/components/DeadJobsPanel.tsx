@@ -0,0 +1,164 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { RotateCcw, X, AlertTriangle } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface DeadJob {
+  id: string;
+  attempts: number;
+  last_error: string | null;
+  finished_at: string | null;
+  monitored_urls: { name: string | null; url: string } | null;
+}
+
+export const DeadJobsPanel = () => {
+  const [jobs, setJobs] = useState<DeadJob[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadJobs = async () => {
+    const { data, error } = await supabase
+      .from("check_jobs")
+      .select("id, attempts, last_error, finished_at, monitored_urls(name, url)")
+      .eq("status", "dead")
+      .order("finished_at", { ascending: false });
+
+    if (error) {
+      console.error("Error loading dead jobs:", error);
+      return;
+    }
+    setJobs(data || []);
+  };
+
+  useEffect(() => {
+    loadJobs();
+
+    // Subscribe to changes
+    const channel = supabase
+      .channel("check_jobs_changes")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "check_jobs" },
+        () => loadJobs()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const handleRetry = async (jobId: string) => {
+    setBusyId(jobId);
+    try {
+      // Back into the queue with a fresh retry budget; the next scheduled run picks it up
+      const { error } = await supabase
+        .from("check_jobs")
+        .update({
+          status: "queued",
+          attempts: 0,
+          run_after: new Date().toISOString(),
+          finished_at: null,
+          last_error: null,
+        })
+        .eq("id", jobId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Queued",
+        description: "The check will be retried on the next scheduled run",
+      });
+      loadJobs();
+    } catch (error) {
+      console.error("Error retrying job:", error);
+      toast({
+        title: "Error",
+        description: "Failed to retry job",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDismiss = async (jobId: string) => {
+    setBusyId(jobId);
+    try {
+      // Removing the dead job lets the URL's regular schedule enqueue new checks
+      const { error } = await supabase
+        .from("check_jobs")
+        .delete()
+        .eq("id", jobId);
+
+      if (error) throw error;
+      loadJobs();
+    } catch (error) {
+      console.error("Error dismissing job:", error);
+      toast({
+        title: "Error",
+        description: "Failed to dismiss job",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <Card className="mb-6 border-destructive/50">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          Failed Checks ({jobs.length})
+        </CardTitle>
+        <CardDescription>
+          These checks failed on every retry and are no longer scheduled until retried or dismissed
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {jobs.map((job) => (
+          <div key={job.id} className="flex items-start justify-between gap-4 text-sm">
+            <div className="flex-1 min-w-0">
+              <p className="font-medium truncate">
+                {job.monitored_urls?.name || job.monitored_urls?.url || "Unknown URL"}
+              </p>
+              <p className="text-muted-foreground break-words">
+                {job.last_error || "Unknown error"}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {job.attempts} attempts
+                {job.finished_at && ` · gave up ${formatDistanceToNow(new Date(job.finished_at), { addSuffix: true })}`}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRetry(job.id)}
+                disabled={busyId === job.id}
+              >
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Retry
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleDismiss(job.id)}
+                disabled={busyId === job.id}
+                title="Dismiss"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
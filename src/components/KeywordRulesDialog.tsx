@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { patternProblem } from "@/lib/patterns";
+import { formatDistanceToNow } from "date-fns";
+import { Trash2 } from "lucide-react";
+
+// Events shown per rule
+const EVENT_LIMIT = 5;
+
+interface KeywordRule {
+  id: string;
+  phrase: string;
+  match_type: string;
+  case_sensitive: boolean;
+  alert_on: string;
+  is_active: boolean;
+}
+
+interface KeywordEvent {
+  id: string;
+  rule_id: string;
+  event: string;
+  snippet: string;
+  match_count: number;
+  created_at: string;
+}
+
+const ALERT_ON_LABELS: Record<string, string> = {
+  both: "Appears or disappears",
+  appear: "Appears",
+  disappear: "Disappears",
+};
+
+interface KeywordRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  urlId: string;
+  urlName: string;
+}
+
+export const KeywordRulesDialog = ({ open, onOpenChange, urlId, urlName }: KeywordRulesDialogProps) => {
+  const [rules, setRules] = useState<KeywordRule[]>([]);
+  const [events, setEvents] = useState<Record<string, KeywordEvent[]>>({});
+  const [phrase, setPhrase] = useState("");
+  const [matchType, setMatchType] = useState("keyword");
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [alertOn, setAlertOn] = useState("both");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const loadRules = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("keyword_rules")
+      .select("id, phrase, match_type, case_sensitive, alert_on, is_active")
+      .eq("monitored_url_id", urlId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error loading keyword rules:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load keyword rules",
+        variant: "destructive",
+      });
+      return;
+    }
+    setRules(data || []);
+
+    const recent = await Promise.all((data || []).map((rule) =>
+      supabase
+        .from("keyword_events")
+        .select("id, rule_id, event, snippet, match_count, created_at")
+        .eq("rule_id", rule.id)
+        .order("created_at", { ascending: false })
+        .limit(EVENT_LIMIT)
+    ));
+    const eventsError = recent.find((result) => result.error)?.error;
+    if (eventsError) {
+      console.error("Error loading keyword events:", eventsError);
+    }
+    setEvents(Object.fromEntries((data || []).map((rule, index) => [rule.id, recent[index].data || []])));
+  }, [urlId, toast]);
+
+  const resetForm = () => {
+    setPhrase("");
+    setMatchType("keyword");
+    setCaseSensitive(false);
+    setAlertOn("both");
+  };
+
+  useEffect(() => {
+    if (open && urlId) {
+      resetForm();
+      setRules([]);
+      setEvents({});
+      loadRules();
+    }
+  }, [open, urlId, loadRules]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!phrase.trim()) {
+      toast({ title: "Invalid rule", description: "Enter a word, phrase or pattern", variant: "destructive" });
+      return;
+    }
+    const problem = matchType === "regex" ? patternProblem(phrase) : null;
+    if (problem) {
+      toast({ title: "Invalid rule", description: problem, variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.from("keyword_rules").insert({
+        monitored_url_id: urlId,
+        phrase: matchType === "regex" ? phrase : phrase.trim(),
+        match_type: matchType,
+        case_sensitive: caseSensitive,
+        alert_on: alertOn,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Keyword rule added",
+        description: "It is evaluated the next time the page changes",
+      });
+      resetForm();
+      loadRules();
+    } catch (error) {
+      console.error("Error adding keyword rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to add keyword rule",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggle = async (rule: KeywordRule, isActive: boolean) => {
+    try {
+      const { error } = await supabase.from("keyword_rules").update({ is_active: isActive }).eq("id", rule.id);
+      if (error) throw error;
+      loadRules();
+    } catch (error) {
+      console.error("Error updating keyword rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update keyword rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (rule: KeywordRule) => {
+    try {
+      const { error } = await supabase.from("keyword_rules").delete().eq("id", rule.id);
+      if (error) throw error;
+
+      toast({
+        title: "Deleted",
+        description: `The rule for "${rule.phrase}" and its history were removed`,
+      });
+      loadRules();
+    } catch (error) {
+      console.error("Error deleting keyword rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete keyword rule",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Keyword Rules: {urlName}</DialogTitle>
+          <DialogDescription>
+            Alerts when the page starts or stops mentioning something, however small the rest of the change.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[70vh] pr-4">
+          <div className="space-y-4">
+            {rules.length === 0 && (
+              <p className="text-sm text-muted-foreground">No keyword rules on this URL yet.</p>
+            )}
+
+            {rules.map((rule) => (
+              <Card key={rule.id} className="p-4 space-y-2">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex flex-wrap items-center gap-2 min-w-0">
+                    <span className={`font-medium break-all ${rule.match_type === "regex" ? "font-mono" : ""}`}>
+                      {rule.match_type === "regex" ? rule.phrase : `"${rule.phrase}"`}
+                    </span>
+                    <Badge variant="outline">{rule.match_type === "regex" ? "Regex" : "Keyword"}</Badge>
+                    {rule.case_sensitive && <Badge variant="outline">Case sensitive</Badge>}
+                    <span className="text-xs text-muted-foreground">
+                      Alerts when it {ALERT_ON_LABELS[rule.alert_on]?.toLowerCase() ?? rule.alert_on}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={rule.is_active}
+                      onCheckedChange={(checked) => handleToggle(rule, checked)}
+                      title={rule.is_active ? "Stop evaluating this rule" : "Resume evaluating this rule"}
+                    />
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(rule)} title="Delete">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {(events[rule.id] || []).length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No appearance or disappearance recorded yet</p>
+                ) : (
+                  <ul className="space-y-1 text-sm">
+                    {events[rule.id].map((event) => (
+                      <li key={event.id}>
+                        <Badge variant={event.event === "appeared" ? "default" : "secondary"} className="mr-2">
+                          {event.event === "appeared" ? "Appeared" : "Disappeared"}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(event.created_at), { addSuffix: true })}
+                          {event.match_count > 1 && ` · ${event.match_count} mentions`}
+                        </span>
+                        <p className="text-xs text-muted-foreground mt-1 italic">{event.snippet}</p>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </Card>
+            ))}
+
+            <form onSubmit={handleAdd} className="space-y-4 border-t pt-4">
+              <Label>Add a Rule</Label>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <Label htmlFor="keyword-phrase">{matchType === "regex" ? "Pattern" : "Word or Phrase"}</Label>
+                  <Input
+                    id="keyword-phrase"
+                    value={phrase}
+                    onChange={(e) => setPhrase(e.target.value)}
+                    placeholder={matchType === "regex" ? "discontinu(ed|ing)" : "arbitration"}
+                    className={matchType === "regex" ? "font-mono" : undefined}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="keyword-match-type">Match</Label>
+                  <Select value={matchType} onValueChange={setMatchType}>
+                    <SelectTrigger id="keyword-match-type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="keyword">Whole words</SelectItem>
+                      <SelectItem value="regex">Regular expression</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Rules are matched against the page's monitored text, so include and exclude selectors apply.
+              </p>
+
+              <div className="grid grid-cols-3 gap-4 items-end">
+                <div className="col-span-2">
+                  <Label htmlFor="keyword-alert-on">Alert When It</Label>
+                  <Select value={alertOn} onValueChange={setAlertOn}>
+                    <SelectTrigger id="keyword-alert-on">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ALERT_ON_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center space-x-2 pb-2">
+                  <Switch id="keyword-case-sensitive" checked={caseSensitive} onCheckedChange={setCaseSensitive} />
+                  <Label htmlFor="keyword-case-sensitive" className="cursor-pointer">Case sensitive</Label>
+                </div>
+              </div>
+
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? "Adding..." : "Add Rule"}
+              </Button>
+            </form>
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
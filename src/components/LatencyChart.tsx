@@ -0,0 +1,51 @@
+import { Line, LineChart, XAxis, YAxis, CartesianGrid } from "recharts";
+import { format } from "date-fns";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+
+interface LatencyPoint {
+  created_at: string;
+  response_time_ms: number | null;
+}
+
+interface LatencyChartProps {
+  // Newest first, as the snapshot history lists them
+  snapshots: LatencyPoint[];
+}
+
+const chartConfig = {
+  responseTime: {
+    label: "Response time (ms)",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+export const LatencyChart = ({ snapshots }: LatencyChartProps) => {
+  const data = snapshots
+    .filter((snapshot) => snapshot.response_time_ms !== null)
+    .map((snapshot) => ({
+      checkedAt: format(new Date(snapshot.created_at), "MMM d HH:mm"),
+      responseTime: snapshot.response_time_ms,
+    }))
+    .reverse();
+
+  // A single point is not a trend
+  if (data.length < 2) return null;
+
+  return (
+    <ChartContainer config={chartConfig} className="h-40 w-full">
+      <LineChart data={data} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="checkedAt" tickLine={false} axisLine={false} minTickGap={32} />
+        <YAxis tickLine={false} axisLine={false} width={48} unit="ms" />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Line
+          dataKey="responseTime"
+          type="monotone"
+          stroke="var(--color-responseTime)"
+          strokeWidth={2}
+          dot={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+};
@@ -0,0 +1,193 @@
+import { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+
+// Remember who is placing holds on this device so it does not have to be retyped
+const ACTOR_STORAGE_KEY = "legal-hold-actor";
+
+interface LegalHold {
+  id: string;
+  reason: string | null;
+  placed_by: string;
+  placed_at: string;
+  lifted_by: string | null;
+  lifted_at: string | null;
+}
+
+interface LegalHoldDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  urlId: string;
+  // When set the hold covers this snapshot only, otherwise every snapshot of the URL
+  snapshotId?: string | null;
+  targetName: string;
+  onChanged?: () => void;
+}
+
+export const LegalHoldDialog = ({ open, onOpenChange, urlId, snapshotId, targetName, onChanged }: LegalHoldDialogProps) => {
+  const [holds, setHolds] = useState<LegalHold[]>([]);
+  const [actor, setActor] = useState("");
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const activeHold = holds.find((hold) => !hold.lifted_at);
+
+  const loadHolds = useCallback(async () => {
+    let query = supabase
+      .from("legal_holds")
+      .select("id, reason, placed_by, placed_at, lifted_by, lifted_at")
+      .order("placed_at", { ascending: false });
+
+    query = snapshotId
+      ? query.eq("scope", "snapshot").eq("snapshot_id", snapshotId)
+      : query.eq("scope", "url").eq("monitored_url_id", urlId);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error("Error loading legal holds:", error);
+      return;
+    }
+    setHolds(data || []);
+  }, [urlId, snapshotId]);
+
+  useEffect(() => {
+    if (open && urlId) {
+      setActor(localStorage.getItem(ACTOR_STORAGE_KEY) ?? "");
+      setReason("");
+      setHolds([]);
+      loadHolds();
+    }
+  }, [open, urlId, snapshotId, loadHolds]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const name = actor.trim();
+    if (!name) {
+      toast({
+        title: "Name required",
+        description: "Enter who is placing or lifting the hold",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = activeHold
+        ? await supabase
+            .from("legal_holds")
+            .update({ lifted_by: name, lifted_at: new Date().toISOString() })
+            .eq("id", activeHold.id)
+        : await supabase.from("legal_holds").insert({
+            scope: snapshotId ? "snapshot" : "url",
+            monitored_url_id: urlId,
+            snapshot_id: snapshotId ?? null,
+            reason: reason.trim() || null,
+            placed_by: name,
+          });
+
+      if (error) throw error;
+
+      localStorage.setItem(ACTOR_STORAGE_KEY, name);
+      toast({
+        title: activeHold ? "Hold lifted" : "Hold placed",
+        description: activeHold
+          ? "Snapshots can be deleted again"
+          : snapshotId
+          ? "This snapshot can no longer be deleted"
+          : "Snapshots of this URL can no longer be deleted",
+      });
+
+      onOpenChange(false);
+      onChanged?.();
+    } catch (error) {
+      console.error("Error updating legal hold:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update legal hold",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{activeHold ? "Lift Legal Hold" : "Place Legal Hold"}</DialogTitle>
+          <DialogDescription>
+            {snapshotId ? "Snapshot of " : "All snapshots of "}
+            {targetName}. Held snapshots cannot be discarded or pruned by retention.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {activeHold && (
+            <p className="text-sm">
+              Placed by <span className="font-medium">{activeHold.placed_by}</span> on{" "}
+              {new Date(activeHold.placed_at).toLocaleString()}
+              {activeHold.reason && <>: {activeHold.reason}</>}
+            </p>
+          )}
+
+          <div>
+            <Label htmlFor="hold-actor">Your Name</Label>
+            <Input
+              id="hold-actor"
+              value={actor}
+              onChange={(e) => setActor(e.target.value)}
+              placeholder="Jane Doe, Legal"
+              required
+            />
+          </div>
+
+          {!activeHold && (
+            <div>
+              <Label htmlFor="hold-reason">Reason (optional)</Label>
+              <Textarea
+                id="hold-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Matter or request reference"
+                rows={2}
+              />
+            </div>
+          )}
+
+          {holds.some((hold) => hold.lifted_at) && (
+            <div>
+              <Label>History</Label>
+              <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+                {holds.filter((hold) => hold.lifted_at).map((hold) => (
+                  <li key={hold.id}>
+                    Placed by {hold.placed_by} on {new Date(hold.placed_at).toLocaleString()}, lifted by{" "}
+                    {hold.lifted_by} on {new Date(hold.lifted_at as string).toLocaleString()}
+                    {hold.reason && ` (${hold.reason})`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant={activeHold ? "destructive" : "default"} disabled={isSubmitting}>
+              {isSubmitting ? "Saving..." : activeHold ? "Lift Hold" : "Place Hold"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,108 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+
+interface PauseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  urlIds: string[];
+  onPaused?: () => void;
+}
+
+export const PauseDialog = ({ open, onOpenChange, urlIds, onPaused }: PauseDialogProps) => {
+  const [pausedUntil, setPausedUntil] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (open) setPausedUntil("");
+  }, [open]);
+
+  const handlePause = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // datetime-local values are in the browser's time zone
+    const resumeAt = pausedUntil ? new Date(pausedUntil) : null;
+    if (resumeAt && resumeAt.getTime() <= Date.now()) {
+      toast({
+        title: "Invalid time",
+        description: "The resume time must be in the future",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase
+        .from("monitored_urls")
+        .update({ is_active: false, paused_until: resumeAt?.toISOString() ?? null })
+        .in("id", urlIds);
+
+      if (error) throw error;
+
+      toast({
+        title: "Paused",
+        description: `${urlIds.length === 1 ? "Monitoring" : `${urlIds.length} URLs`} paused ${
+          resumeAt ? `until ${resumeAt.toLocaleString()}` : "until resumed"
+        }`,
+      });
+
+      onOpenChange(false);
+      onPaused?.();
+    } catch (error) {
+      console.error("Error pausing URLs:", error);
+      toast({
+        title: "Error",
+        description: "Failed to pause monitoring",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {urlIds.length === 1 ? "Pause Monitoring" : `Pause ${urlIds.length} URLs`}
+          </DialogTitle>
+          <DialogDescription>
+            Scheduled checks are skipped while paused. Leave the time empty to pause until resumed manually.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handlePause} className="space-y-4">
+          <div>
+            <Label htmlFor="paused-until">Resume automatically at (optional)</Label>
+            <Input
+              id="paused-until"
+              type="datetime-local"
+              value={pausedUntil}
+              onChange={(e) => setPausedUntil(e.target.value)}
+            />
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || urlIds.length === 0}>
+              {isSubmitting ? "Pausing..." : "Pause"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,86 @@
+import { useMemo, useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { alignPages, PagePair } from "@/lib/pdfPages";
+import { DiffViewer } from "./DiffViewer";
+
+interface PdfPageDiffViewerProps {
+  oldPages: string[];
+  newPages: string[];
+}
+
+const pairLabel = (pair: PagePair) => {
+  if (pair.newPage === null) return `Page ${pair.oldPage} (removed)`;
+  if (pair.oldPage === null) return `Page ${pair.newPage} (new)`;
+  if (pair.oldPage !== pair.newPage) return `Page ${pair.newPage} (was ${pair.oldPage})`;
+  return `Page ${pair.newPage}`;
+};
+
+export const PdfPageDiffViewer = ({ oldPages, newPages }: PdfPageDiffViewerProps) => {
+  const pairs = useMemo(() => alignPages(oldPages, newPages), [oldPages, newPages]);
+  const changedIndexes = useMemo(
+    () => pairs.flatMap((pair, index) => (pair.changed ? [index] : [])),
+    [pairs],
+  );
+  // Open on the first changed page, which is usually what the user came to see
+  const [index, setIndex] = useState(changedIndexes[0] ?? 0);
+
+  if (pairs.length === 0) {
+    return <div className="text-center py-8 text-muted-foreground">Neither version has any pages</div>;
+  }
+
+  const pair = pairs[Math.min(index, pairs.length - 1)];
+  const previousChange = [...changedIndexes].reverse().find((changed) => changed < index);
+  const nextChange = changedIndexes.find((changed) => changed > index);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" onClick={() => setIndex(index - 1)} disabled={index === 0}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Select value={String(index)} onValueChange={(value) => setIndex(Number(value))}>
+          <SelectTrigger className="w-[220px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {pairs.map((option, optionIndex) => (
+              <SelectItem key={optionIndex} value={String(optionIndex)}>
+                {pairLabel(option)}{option.changed ? " •" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" variant="outline" onClick={() => setIndex(index + 1)} disabled={index === pairs.length - 1}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => previousChange !== undefined && setIndex(previousChange)}
+          disabled={previousChange === undefined}
+        >
+          Previous change
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => nextChange !== undefined && setIndex(nextChange)}
+          disabled={nextChange === undefined}
+        >
+          Next change
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          {changedIndexes.length} of {pairs.length} pages changed · {oldPages.length} → {newPages.length} pages
+        </span>
+      </div>
+
+      {pair.changed ? (
+        <DiffViewer oldText={pair.oldText} newText={pair.newText} />
+      ) : (
+        <div className="font-mono text-sm leading-relaxed text-muted-foreground">{pair.newText}</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,389 @@
+import { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { formatDistanceToNow } from "date-fns";
+import { Eye } from "lucide-react";
+
+const GLOBAL_SCOPE = "global";
+
+interface RetentionPolicy {
+  id: string;
+  monitored_url_id: string | null;
+  keep_last_n: number | null;
+  keep_alerts: boolean;
+  rollup_after_days: number | null;
+  rollup_interval: string;
+  dry_run: boolean;
+}
+
+interface RetentionRun {
+  id: string;
+  dry_run: boolean;
+  snapshots_deleted: number;
+  files_deleted: number;
+  created_at: string | null;
+}
+
+// One entry of the prune-snapshots report
+interface UrlReport {
+  urlId: string;
+  url: string;
+  scope: "url" | "global";
+  onLegalHold: boolean;
+  heldSnapshots: number;
+  totalSnapshots: number;
+  keptSnapshots: number;
+  deletedSnapshots: number;
+  deletedFiles: number;
+  oldestDeletedAt: string | null;
+  newestDeletedAt: string | null;
+}
+
+interface RetentionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Empty inputs mean "no limit"
+const parseOptionalCount = (value: string): number | null => (value.trim() ? Number(value) : null);
+
+export const RetentionDialog = ({ open, onOpenChange }: RetentionDialogProps) => {
+  const [urls, setUrls] = useState<{ id: string; name: string | null; url: string }[]>([]);
+  const [policies, setPolicies] = useState<RetentionPolicy[]>([]);
+  const [runs, setRuns] = useState<RetentionRun[]>([]);
+  const [scope, setScope] = useState(GLOBAL_SCOPE);
+  const [keepLastN, setKeepLastN] = useState("");
+  const [keepAlerts, setKeepAlerts] = useState(true);
+  const [rollupAfterDays, setRollupAfterDays] = useState("90");
+  const [rollupInterval, setRollupInterval] = useState("daily");
+  const [dryRun, setDryRun] = useState(true);
+  const [report, setReport] = useState<UrlReport[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const { toast } = useToast();
+
+  const currentPolicy = policies.find(
+    (policy) => policy.monitored_url_id === (scope === GLOBAL_SCOPE ? null : scope)
+  );
+
+  const loadData = useCallback(async () => {
+    const [urlResult, policyResult, runResult] = await Promise.all([
+      supabase.from("monitored_urls").select("id, name, url").order("created_at", { ascending: false }),
+      supabase.from("retention_policies").select("*"),
+      supabase.from("retention_runs").select("id, dry_run, snapshots_deleted, files_deleted, created_at")
+        .order("created_at", { ascending: false })
+        .limit(5),
+    ]);
+
+    const error = urlResult.error || policyResult.error || runResult.error;
+    if (error) {
+      console.error("Error loading retention settings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load retention settings",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setUrls(urlResult.data || []);
+    setPolicies(policyResult.data || []);
+    setRuns(runResult.data || []);
+  }, [toast]);
+
+  useEffect(() => {
+    if (open) {
+      setScope(GLOBAL_SCOPE);
+      setReport(null);
+      loadData();
+    }
+  }, [open, loadData]);
+
+  // Show the selected scope's policy, or the defaults when it has none
+  useEffect(() => {
+    setKeepLastN(currentPolicy?.keep_last_n ? String(currentPolicy.keep_last_n) : "");
+    setKeepAlerts(currentPolicy?.keep_alerts ?? true);
+    setRollupAfterDays(
+      currentPolicy ? (currentPolicy.rollup_after_days ? String(currentPolicy.rollup_after_days) : "") : "90"
+    );
+    setRollupInterval(currentPolicy?.rollup_interval ?? "daily");
+    setDryRun(currentPolicy?.dry_run ?? true);
+    setReport(null);
+  }, [scope, currentPolicy]);
+
+  const handleSave = async () => {
+    const settings = {
+      monitored_url_id: scope === GLOBAL_SCOPE ? null : scope,
+      keep_last_n: parseOptionalCount(keepLastN),
+      keep_alerts: keepAlerts,
+      rollup_after_days: parseOptionalCount(rollupAfterDays),
+      rollup_interval: rollupInterval,
+      dry_run: dryRun,
+    };
+
+    for (const value of [settings.keep_last_n, settings.rollup_after_days]) {
+      if (value !== null && (!Number.isInteger(value) || value < 1)) {
+        toast({
+          title: "Invalid settings",
+          description: "Counts and days must be whole numbers of at least 1, or empty for no limit",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = currentPolicy
+        ? await supabase.from("retention_policies").update(settings).eq("id", currentPolicy.id)
+        : await supabase.from("retention_policies").insert(settings);
+
+      if (error) throw error;
+
+      toast({
+        title: "Saved",
+        description: dryRun
+          ? "Scheduled runs will only report what they would delete"
+          : "Scheduled runs will delete snapshots outside this policy",
+      });
+      loadData();
+    } catch (error) {
+      console.error("Error saving retention policy:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save retention policy",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!currentPolicy) return;
+
+    try {
+      const { error } = await supabase.from("retention_policies").delete().eq("id", currentPolicy.id);
+      if (error) throw error;
+      loadData();
+    } catch (error) {
+      console.error("Error removing retention policy:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove retention policy",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Dry run of the saved policies; nothing is deleted
+  const handlePreview = async () => {
+    setIsPreviewing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("prune-snapshots", {
+        body: { dryRun: true, ...(scope !== GLOBAL_SCOPE && { urlId: scope }) },
+      });
+
+      if (error) throw error;
+      if (data.error) throw new Error(data.error);
+
+      setReport(data.reports);
+      loadData();
+    } catch (error) {
+      console.error("Error previewing retention:", error);
+      toast({
+        title: "Preview failed",
+        description: error instanceof Error ? error.message : "Could not run the retention preview",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Snapshot Retention</DialogTitle>
+          <DialogDescription>
+            Old snapshots and their files are pruned by a scheduled job. URLs without their own policy use the global one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[70vh] pr-4">
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="retention-scope">Applies To</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger id="retention-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={GLOBAL_SCOPE}>All URLs (global default)</SelectItem>
+                  {urls.map((url) => (
+                    <SelectItem key={url.id} value={url.id}>
+                      {url.name || url.url}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground mt-1">
+                {currentPolicy ? "This scope has its own policy" : "No policy saved for this scope yet"}
+              </p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="keep-last-n">Keep Newest</Label>
+                <Input
+                  id="keep-last-n"
+                  type="number"
+                  value={keepLastN}
+                  onChange={(e) => setKeepLastN(e.target.value)}
+                  placeholder="All"
+                  min="1"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="rollup-after-days">Roll Up After (days)</Label>
+                <Input
+                  id="rollup-after-days"
+                  type="number"
+                  value={rollupAfterDays}
+                  onChange={(e) => setRollupAfterDays(e.target.value)}
+                  placeholder="Never"
+                  min="1"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="rollup-interval">Keep One Per</Label>
+                <Select value={rollupInterval} onValueChange={setRollupInterval}>
+                  <SelectTrigger id="rollup-interval">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="daily">Day</SelectItem>
+                    <SelectItem value="weekly">Week</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Without a count, every snapshot newer than the roll-up age is kept; older ones are thinned to one per day or week.
+            </p>
+
+            <div className="flex items-center space-x-2">
+              <Switch id="keep-alerts" checked={keepAlerts} onCheckedChange={setKeepAlerts} />
+              <Label htmlFor="keep-alerts" className="cursor-pointer">
+                Always keep snapshots with yellow or red alerts
+              </Label>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch id="dry-run" checked={dryRun} onCheckedChange={setDryRun} />
+              <Label htmlFor="dry-run" className="cursor-pointer">
+                Report only (scheduled runs delete nothing)
+              </Label>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={isSubmitting}>
+                {isSubmitting ? "Saving..." : "Save Policy"}
+              </Button>
+              <Button variant="outline" onClick={handlePreview} disabled={isPreviewing} className="gap-1">
+                <Eye className="h-4 w-4" />
+                {isPreviewing ? "Previewing..." : "Preview Saved Policy"}
+              </Button>
+              {currentPolicy && (
+                <Button variant="ghost" onClick={handleRemove}>
+                  Remove Policy
+                </Button>
+              )}
+            </div>
+
+            {report && (
+              report.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No URLs are covered by a saved policy.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>URL</TableHead>
+                      <TableHead className="text-right">Snapshots</TableHead>
+                      <TableHead className="text-right">Kept</TableHead>
+                      <TableHead className="text-right">Would Delete</TableHead>
+                      <TableHead className="text-right">Files</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.map((entry) => (
+                      <TableRow key={entry.urlId}>
+                        <TableCell className="max-w-[240px] truncate" title={entry.url}>
+                          {entry.url}
+                          {entry.scope === "global" && (
+                            <Badge variant="outline" className="ml-2">Global</Badge>
+                          )}
+                          {(entry.onLegalHold || entry.heldSnapshots > 0) && (
+                            <Badge variant="outline" className="ml-2">
+                              {entry.onLegalHold ? "Legal hold" : `${entry.heldSnapshots} held`}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{entry.totalSnapshots}</TableCell>
+                        <TableCell className="text-right">{entry.keptSnapshots}</TableCell>
+                        <TableCell
+                          className="text-right"
+                          title={entry.oldestDeletedAt && entry.newestDeletedAt
+                            ? `${new Date(entry.oldestDeletedAt).toLocaleString()} – ${new Date(entry.newestDeletedAt).toLocaleString()}`
+                            : undefined}
+                        >
+                          {entry.deletedSnapshots}
+                        </TableCell>
+                        <TableCell className="text-right">{entry.deletedFiles}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )
+            )}
+
+            {runs.length > 0 && (
+              <div>
+                <Label>Recent Runs</Label>
+                <ul className="mt-2 space-y-1 text-sm">
+                  {runs.map((run) => (
+                    <li key={run.id} className="flex items-center gap-2">
+                      <Badge variant={run.dry_run ? "outline" : "secondary"}>
+                        {run.dry_run ? "Dry run" : "Applied"}
+                      </Badge>
+                      <span className="text-muted-foreground">
+                        {run.created_at && formatDistanceToNow(new Date(run.created_at), { addSuffix: true })}
+                      </span>
+                      {!run.dry_run && (
+                        <span>
+                          {run.snapshots_deleted} snapshots, {run.files_deleted} files deleted
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,12 +4,22 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { formatDistanceToNow } from "date-fns";
-import { Trash2, GitCompare, ExternalLink } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Trash2, GitCompare, ExternalLink, AlertTriangle, ChevronDown, ChevronRight, Shield, ShieldCheck, Download, Link2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { DiffViewer } from "./DiffViewer";
 import { useToast } from "@/hooks/use-toast";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import type { Json } from "@/integrations/supabase/types";
+import { loadSnapshotPages, loadSnapshotTables, loadSnapshotText, SNAPSHOT_PREVIEW_LENGTH } from "@/lib/snapshots";
+import type { SnapshotTable } from "@/lib/tableDiff";
+import { describePageChanges } from "@/lib/pdfPages";
+import { LatencyChart } from "./LatencyChart";
+import { LegalHoldDialog } from "./LegalHoldDialog";
+import { VisualDiffViewer } from "./VisualDiffViewer";
+import { PdfPageDiffViewer } from "./PdfPageDiffViewer";
+import { TableDiffViewer } from "./TableDiffViewer";
 
 
 interface Snapshot {
@@ -20,10 +30,80 @@ interface Snapshot {
   created_at: string;
   alert_triggered: string;
   change_percentage: number;
+  diff_score: number | null;
   resolved: boolean;
   pdf_file_path: string | null;
+  pdf_render_method: string | null;
+  content_truncated: boolean;
+  check_failed: boolean;
+  not_modified: boolean;
+  heartbeat: boolean;
+  source_snapshot_id: string | null;
+  error_category: string | null;
+  error_message: string | null;
+  check_duration_ms: number | null;
+  response_time_ms: number | null;
+  final_url: string | null;
+  redirect_chain: Json;
+  tls_issuer: string | null;
+  tls_expires_at: string | null;
+  screenshot_path: string | null;
+  visual_change_percentage: number | null;
+  page_count: number | null;
+  changed_pages: number[] | null;
+  removed_pages: number[] | null;
 }
 
+interface ChainVerification {
+  verified: boolean;
+  checkedSnapshots: number;
+  unchainedSnapshots: number;
+  issues: { snapshotId: string; createdAt: string; type: string; detail: string }[];
+}
+
+const RENDER_METHOD_LABELS: Record<string, string> = {
+  original: "original PDF",
+  browser: "browser rendering",
+  structured: "structured rendering",
+  html_fallback: "HTML, rendering failed",
+};
+
+interface RedirectHop {
+  url: string;
+  status: number;
+}
+
+type HistoryItem =
+  | { snapshot: Snapshot }
+  | { runId: string; heartbeats: Snapshot[] };
+
+// Collapse runs of consecutive heartbeats so the history shows changes rather than every check
+const groupHeartbeatRuns = (snapshots: Snapshot[]): HistoryItem[] => {
+  const items: HistoryItem[] = [];
+  let run: Snapshot[] = [];
+
+  const flushRun = () => {
+    if (run.length > 1) {
+      items.push({ runId: run[0].id, heartbeats: run });
+    } else {
+      run.forEach(snapshot => items.push({ snapshot }));
+    }
+    run = [];
+  };
+
+  for (const snapshot of snapshots) {
+    if (snapshot.heartbeat) {
+      run.push(snapshot);
+    } else {
+      flushRun();
+      items.push({ snapshot });
+    }
+  }
+  flushRun();
+
+  return items;
+};
+
 interface SnapshotHistoryProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -42,6 +122,20 @@ export const SnapshotHistory = ({ open, onOpenChange, urlId, urlName }: Snapshot
   const [loading, setLoading] = useState(true);
   const [selectedSnapshots, setSelectedSnapshots] = useState<string[]>([]);
   const [comparingSnapshots, setComparingSnapshots] = useState<[Snapshot, Snapshot] | null>(null);
+  const [comparingTexts, setComparingTexts] = useState<[string, string] | null>(null);
+  const [comparingPages, setComparingPages] = useState<[string[], string[]] | null>(null);
+  const [comparingTables, setComparingTables] = useState<[SnapshotTable[], SnapshotTable[]] | null>(null);
+  const [compareMode, setCompareMode] = useState<"text" | "visual" | "pages" | "tables">("text");
+  const [visualDiffTolerance, setVisualDiffTolerance] = useState(0.1);
+  const [expandedRuns, setExpandedRuns] = useState<string[]>([]);
+  const [urlOnHold, setUrlOnHold] = useState(false);
+  const [heldSnapshotIds, setHeldSnapshotIds] = useState<string[]>([]);
+  const [holdingSnapshotId, setHoldingSnapshotId] = useState<string | null>(null);
+  const [chainVerification, setChainVerification] = useState<ChainVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [exportingSnapshotId, setExportingSnapshotId] = useState<string | null>(null);
+  const [viewingScreenshot, setViewingScreenshot] = useState<Snapshot | null>(null);
+  const [keywordEvents, setKeywordEvents] = useState<Record<string, { phrase: string; event: string }[]>>({});
   const { toast } = useToast();
 
   const loadSnapshots = async () => {
@@ -57,6 +151,36 @@ export const SnapshotHistory = ({ open, onOpenChange, urlId, urlName }: Snapshot
 
       if (error) throw error;
       setSnapshots(data || []);
+
+      const { data: urlSettings } = await supabase
+        .from('monitored_urls')
+        .select('visual_diff_tolerance')
+        .eq('id', urlId)
+        .maybeSingle();
+      setVisualDiffTolerance(urlSettings?.visual_diff_tolerance ?? 0.1);
+
+      const { data: events, error: eventsError } = await supabase
+        .from('keyword_events')
+        .select('snapshot_id, event, keyword_rules!inner(phrase, monitored_url_id)')
+        .eq('keyword_rules.monitored_url_id', urlId)
+        .not('snapshot_id', 'is', null);
+
+      if (eventsError) throw eventsError;
+      const eventsBySnapshot: Record<string, { phrase: string; event: string }[]> = {};
+      for (const event of events || []) {
+        (eventsBySnapshot[event.snapshot_id as string] ??= []).push({ phrase: event.keyword_rules.phrase, event: event.event });
+      }
+      setKeywordEvents(eventsBySnapshot);
+
+      const { data: holds, error: holdError } = await supabase
+        .from('legal_holds')
+        .select('scope, snapshot_id')
+        .eq('monitored_url_id', urlId)
+        .is('lifted_at', null);
+
+      if (holdError) throw holdError;
+      setUrlOnHold((holds || []).some(hold => hold.scope === 'url'));
+      setHeldSnapshotIds((holds || []).filter(hold => hold.scope === 'snapshot').map(hold => hold.snapshot_id as string));
     } catch (error) {
       console.error('Error loading snapshots:', error);
       toast({
@@ -132,17 +256,72 @@ export const SnapshotHistory = ({ open, onOpenChange, urlId, urlName }: Snapshot
       loadSnapshots();
       setSelectedSnapshots([]);
       setComparingSnapshots(null);
+      setComparingTexts(null);
+      setComparingPages(null);
+      setComparingTables(null);
+      setChainVerification(null);
     }
   }, [open, urlId]);
 
+  const handleVerifyChain = async () => {
+    setIsVerifying(true);
+    try {
+      // Deep verification also re-hashes every stored file and text
+      const { data, error } = await supabase.functions.invoke('verify-chain', {
+        body: { urlId, deep: true },
+      });
+
+      if (error) throw error;
+      setChainVerification(data);
+    } catch (error) {
+      console.error('Error verifying evidence chain:', error);
+      toast({
+        title: "Error",
+        description: "Failed to verify the evidence chain",
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const handleExportEvidence = async (snapshot: Snapshot) => {
+    setExportingSnapshotId(snapshot.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('export-evidence', {
+        body: { snapshotId: snapshot.id },
+      });
+
+      if (error) throw error;
+
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(data as Blob);
+      link.download = `evidence_${format(new Date(snapshot.created_at), 'yyyy-MM-dd_HH-mm-ss')}_${snapshot.id}.zip`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error('Error exporting evidence:', error);
+      toast({
+        title: "Error",
+        description: "Failed to export the evidence bundle",
+        variant: "destructive",
+      });
+    } finally {
+      setExportingSnapshotId(null);
+    }
+  };
+
   const handleDelete = async (snapshotId: string) => {
     try {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('content_snapshots')
         .delete()
-        .eq('id', snapshotId);
+        .eq('id', snapshotId)
+        .select('id');
 
       if (error) throw error;
+      // The delete policy silently skips snapshots under legal hold
+      if (!data?.length) throw new Error('Snapshot is under legal hold');
 
       toast({
         title: "Deleted",
@@ -172,7 +351,7 @@ export const SnapshotHistory = ({ open, onOpenChange, urlId, urlName }: Snapshot
     });
   };
 
-  const handleCompare = () => {
+  const handleCompare = async () => {
     if (selectedSnapshots.length !== 2) return;
     
     const snapshot1 = snapshots.find(s => s.id === selectedSnapshots[0]);
@@ -184,9 +363,43 @@ export const SnapshotHistory = ({ open, onOpenChange, urlId, urlName }: Snapshot
         (a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
       );
       setComparingSnapshots([sorted[0], sorted[1]]);
+      setComparingTexts(null);
+      setComparingPages(null);
+      setComparingTables(null);
+      setCompareMode("text");
+
+      // The list only carries a preview, so fetch the full text for the diff
+      try {
+        const [[oldText, newText], [oldPages, newPages], [oldTables, newTables]] = await Promise.all([
+          Promise.all(sorted.map(loadSnapshotText)),
+          Promise.all(sorted.map(loadSnapshotPages)),
+          Promise.all(sorted.map(loadSnapshotTables)),
+        ]);
+        setComparingTexts([oldText, newText]);
+        // A page that gained or lost its only table still has something to compare
+        if (oldTables || newTables) {
+          setComparingTables([oldTables ?? [], newTables ?? []]);
+        }
+        if (oldPages && newPages) {
+          setComparingPages([oldPages, newPages]);
+          // PDFs are easier to review page by page
+          setCompareMode("pages");
+        }
+      } catch (error) {
+        console.error('Error loading snapshot text:', error);
+        setComparingSnapshots(null);
+        toast({
+          title: "Error",
+          description: "Failed to load snapshot content",
+          variant: "destructive",
+        });
+      }
     }
   };
 
+  const getRedirectChain = (snapshot: Snapshot) =>
+    Array.isArray(snapshot.redirect_chain) ? (snapshot.redirect_chain as unknown as RedirectHop[]) : [];
+
   const getAlertColor = (level: string) => {
     switch (level) {
       case 'red':
@@ -198,20 +411,267 @@ export const SnapshotHistory = ({ open, onOpenChange, urlId, urlName }: Snapshot
     }
   };
 
+  const handleToggleRun = (runId: string) => {
+    setExpandedRuns(prev =>
+      prev.includes(runId) ? prev.filter(id => id !== runId) : [...prev, runId]
+    );
+  };
+
+  // Heartbeats reuse the file of the snapshot they matched
+  const getFilePath = (snapshot: Snapshot) =>
+    snapshot.pdf_file_path ??
+    snapshots.find(s => s.id === snapshot.source_snapshot_id)?.pdf_file_path ??
+    null;
+
+  const getRenderMethod = (snapshot: Snapshot) =>
+    snapshot.pdf_file_path
+      ? snapshot.pdf_render_method
+      : snapshots.find(s => s.id === snapshot.source_snapshot_id)?.pdf_render_method ?? null;
+
+  const getScreenshotPath = (snapshot: Snapshot) =>
+    snapshot.screenshot_path ??
+    snapshots.find(s => s.id === snapshot.source_snapshot_id)?.screenshot_path ??
+    null;
+
+  // Page count of the PDF snapshot before this one, to flag pages being added or dropped
+  const getPreviousPageCount = (snapshot: Snapshot) => {
+    const index = snapshots.findIndex(s => s.id === snapshot.id);
+    return snapshots.slice(index + 1).find(s => !s.heartbeat && !s.check_failed && s.page_count !== null)?.page_count ?? null;
+  };
+
+  const isOnHold = (snapshot: Snapshot) => urlOnHold || heldSnapshotIds.includes(snapshot.id);
+
+  const renderSnapshot = (snapshot: Snapshot) => (
+    <Card key={snapshot.id} className="p-4">
+      <div className="flex items-center gap-3">
+        <Checkbox
+          checked={selectedSnapshots.includes(snapshot.id)}
+          onCheckedChange={() => handleSelectSnapshot(snapshot.id)}
+          disabled={
+            snapshot.check_failed ||
+            (snapshot.heartbeat && !snapshot.source_snapshot_id) ||
+            (selectedSnapshots.length >= 2 && 
+            !selectedSnapshots.includes(snapshot.id))
+          }
+        />
+
+        {snapshot.screenshot_path && (
+          <button
+            type="button"
+            onClick={() => setViewingScreenshot(snapshot)}
+            className="shrink-0 overflow-hidden rounded border hover:ring-2 hover:ring-primary"
+            title="View full-page screenshot"
+          >
+            <img
+              src={getFileUrl(snapshot.screenshot_path) ?? undefined}
+              alt="Page screenshot"
+              loading="lazy"
+              className="h-16 w-24 object-cover object-top"
+            />
+          </button>
+        )}
+        
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-sm font-medium">
+              {formatDistanceToNow(new Date(snapshot.created_at), { addSuffix: true })}
+            </span>
+            <Badge variant={getAlertColor(snapshot.alert_triggered)}>
+              {snapshot.alert_triggered.toUpperCase()}
+            </Badge>
+            {snapshot.check_failed && (
+              <Badge variant="outline" className="border-destructive text-destructive">
+                Check failed{snapshot.error_category ? `: ${snapshot.error_category}` : ""}
+              </Badge>
+            )}
+            {snapshot.heartbeat && (
+              <Badge
+                variant="outline"
+                title={snapshot.not_modified
+                  ? "The server answered 304 Not Modified, so no content was downloaded"
+                  : "Content matched the previous snapshot, so nothing new was stored"}
+              >
+                {snapshot.not_modified ? "Not modified" : "Unchanged"}
+              </Badge>
+            )}
+            {snapshot.resolved && (
+              <Badge variant="outline">Resolved</Badge>
+            )}
+            {isOnHold(snapshot) && (
+              <Badge variant="outline" title={urlOnHold ? "The whole URL is under legal hold" : undefined}>
+                Legal hold
+              </Badge>
+            )}
+            {snapshot.content_truncated && (
+              <Badge variant="outline" title="Only the first 10,000 characters of this snapshot were stored">
+                Truncated
+              </Badge>
+            )}
+          </div>
+          {snapshot.check_failed && snapshot.error_message && (
+            <p className="text-xs text-destructive mb-1 break-words">{snapshot.error_message}</p>
+          )}
+          <div className="flex gap-4 text-xs text-muted-foreground">
+            {snapshot.status_code !== null && <span>Status: {snapshot.status_code}</span>}
+            {snapshot.content_length !== null && (
+              <span>Size: {snapshot.content_length.toLocaleString()} chars</span>
+            )}
+            {snapshot.response_time_ms !== null && (
+              <span>Response: {snapshot.response_time_ms}ms</span>
+            )}
+            {snapshot.check_duration_ms !== null && (
+              <span>Took: {(snapshot.check_duration_ms / 1000).toFixed(1)}s</span>
+            )}
+            {snapshot.tls_expires_at && (
+              <span title={snapshot.tls_issuer ? `Issued by ${snapshot.tls_issuer}` : undefined}>
+                Cert expires: {format(new Date(snapshot.tls_expires_at), "PP")}
+              </span>
+            )}
+            {(snapshot.diff_score ?? snapshot.change_percentage) > 0 && (
+              <span>Change: {((snapshot.diff_score ?? snapshot.change_percentage) * 100).toFixed(1)}%</span>
+            )}
+            {snapshot.visual_change_percentage !== null && snapshot.visual_change_percentage > 0 && (
+              <span>Visual change: {(snapshot.visual_change_percentage * 100).toFixed(1)}%</span>
+            )}
+            {snapshot.page_count !== null && !snapshot.heartbeat && (
+              <span>
+                Pages: {getPreviousPageCount(snapshot) !== null && getPreviousPageCount(snapshot) !== snapshot.page_count
+                  ? `${getPreviousPageCount(snapshot)} → ${snapshot.page_count}`
+                  : snapshot.page_count}
+              </span>
+            )}
+          </div>
+          {keywordEvents[snapshot.id] && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {keywordEvents[snapshot.id].map(({ phrase, event }) => `"${phrase}" ${event}`).join(" · ")}
+            </p>
+          )}
+          {describePageChanges(snapshot.changed_pages, snapshot.removed_pages) && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {describePageChanges(snapshot.changed_pages, snapshot.removed_pages)}
+            </p>
+          )}
+          {getRedirectChain(snapshot).length > 0 && (
+            <p className="text-xs text-muted-foreground mt-1 break-all">
+              {getRedirectChain(snapshot).map((hop) => `${hop.url} (${hop.status})`).join(" → ")} → {snapshot.final_url}
+            </p>
+          )}
+          {getFilePath(snapshot) && (
+            <div className="mt-1">
+              <Button
+                variant="link"
+                size="sm"
+                onClick={() => handleViewFile(getFilePath(snapshot))}
+                className="h-auto p-0 text-xs text-primary hover:underline inline-flex items-center gap-1"
+              >
+                <ExternalLink className="h-3 w-3" />
+                View Captured File
+              </Button>
+              {getRenderMethod(snapshot) && (
+                <span className="ml-2 text-xs text-muted-foreground">
+                  ({RENDER_METHOD_LABELS[getRenderMethod(snapshot) as string] ?? getRenderMethod(snapshot)})
+                </span>
+              )}
+            </div>
+          )}
+        </div>
+
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => handleExportEvidence(snapshot)}
+          disabled={exportingSnapshotId === snapshot.id}
+          title="Export evidence bundle"
+        >
+          <Download className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setHoldingSnapshotId(snapshot.id)}
+          title={heldSnapshotIds.includes(snapshot.id) ? "Lift legal hold" : "Place legal hold"}
+        >
+          {heldSnapshotIds.includes(snapshot.id) ? (
+            <ShieldCheck className="h-4 w-4" />
+          ) : (
+            <Shield className="h-4 w-4" />
+          )}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => handleDelete(snapshot.id)}
+          disabled={isOnHold(snapshot)}
+          title={isOnHold(snapshot) ? "Under legal hold" : "Discard snapshot"}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </Card>
+  );
+
   if (comparingSnapshots) {
+    const screenshotUrls = comparingSnapshots.map(snapshot => getFileUrl(getScreenshotPath(snapshot)));
+    const comparingScreenshots = screenshotUrls[0] && screenshotUrls[1]
+      ? [screenshotUrls[0], screenshotUrls[1]] as const
+      : null;
+
     return (
       <Dialog open={open} onOpenChange={onOpenChange}>
         <DialogContent className="max-w-4xl max-h-[90vh]">
           <DialogHeader>
             <div className="flex items-center justify-between">
               <DialogTitle>Comparing Snapshots: {urlName}</DialogTitle>
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={() => setComparingSnapshots(null)}
-              >
-                Back to History
-              </Button>
+              <div className="flex gap-2">
+                {(comparingScreenshots || comparingPages || comparingTables) && (
+                  <Button
+                    size="sm"
+                    variant={compareMode === "text" ? "default" : "outline"}
+                    onClick={() => setCompareMode("text")}
+                  >
+                    Text
+                  </Button>
+                )}
+                {comparingPages && (
+                  <Button
+                    size="sm"
+                    variant={compareMode === "pages" ? "default" : "outline"}
+                    onClick={() => setCompareMode("pages")}
+                  >
+                    Pages
+                  </Button>
+                )}
+                {comparingTables && (
+                  <Button
+                    size="sm"
+                    variant={compareMode === "tables" ? "default" : "outline"}
+                    onClick={() => setCompareMode("tables")}
+                  >
+                    Tables
+                  </Button>
+                )}
+                {comparingScreenshots && (
+                  <Button
+                    size="sm"
+                    variant={compareMode === "visual" ? "default" : "outline"}
+                    onClick={() => setCompareMode("visual")}
+                  >
+                    Visual
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => {
+                    setComparingSnapshots(null);
+                    setComparingTexts(null);
+                    setComparingPages(null);
+                    setComparingTables(null);
+                  }}
+                >
+                  Back to History
+                </Button>
+              </div>
             </div>
             <DialogDescription>
               <div className="flex gap-4 mt-2">
@@ -227,11 +687,35 @@ export const SnapshotHistory = ({ open, onOpenChange, urlId, urlName }: Snapshot
             </DialogDescription>
           </DialogHeader>
 
+          {compareMode === "text" && comparingSnapshots.some(s => s.content_truncated) && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                At least one of these snapshots was captured when only the first{' '}
+                {SNAPSHOT_PREVIEW_LENGTH.toLocaleString()} characters were stored. Changes beyond that point are not shown.
+              </AlertDescription>
+            </Alert>
+          )}
+
           <ScrollArea className="h-[60vh] w-full rounded-md border p-4">
-            <DiffViewer 
-              oldText={extractTextFromHtml(comparingSnapshots[0].content_text || '')}
-              newText={extractTextFromHtml(comparingSnapshots[1].content_text || '')}
-            />
+            {compareMode === "visual" && comparingScreenshots ? (
+              <VisualDiffViewer
+                beforeUrl={comparingScreenshots[0]}
+                afterUrl={comparingScreenshots[1]}
+                initialTolerance={visualDiffTolerance}
+              />
+            ) : compareMode === "pages" && comparingPages ? (
+              <PdfPageDiffViewer oldPages={comparingPages[0]} newPages={comparingPages[1]} />
+            ) : compareMode === "tables" && comparingTables ? (
+              <TableDiffViewer oldTables={comparingTables[0]} newTables={comparingTables[1]} />
+            ) : comparingTexts ? (
+              <DiffViewer 
+                oldText={extractTextFromHtml(comparingTexts[0])}
+                newText={extractTextFromHtml(comparingTexts[1])}
+              />
+            ) : (
+              <div className="text-center py-8">Loading content...</div>
+            )}
           </ScrollArea>
         </DialogContent>
       </Dialog>
@@ -245,6 +729,15 @@ export const SnapshotHistory = ({ open, onOpenChange, urlId, urlName }: Snapshot
           <div className="flex items-center justify-between">
             <DialogTitle>Snapshot History: {urlName}</DialogTitle>
             <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleVerifyChain}
+                disabled={isVerifying || snapshots.length === 0}
+              >
+                <Link2 className="h-4 w-4 mr-1" />
+                {isVerifying ? "Verifying..." : "Verify Chain"}
+              </Button>
               <Button
                 size="sm"
                 variant="default"
@@ -261,6 +754,29 @@ export const SnapshotHistory = ({ open, onOpenChange, urlId, urlName }: Snapshot
           </DialogDescription>
         </DialogHeader>
 
+        {chainVerification && (
+          <Alert variant={chainVerification.verified ? "default" : "destructive"}>
+            <Link2 className="h-4 w-4" />
+            <AlertDescription>
+              {chainVerification.verified
+                ? `Evidence chain intact across ${chainVerification.checkedSnapshots} snapshots.`
+                : `Evidence chain broken: ${chainVerification.issues.filter(issue => issue.type !== 'gap').length} problems found.`}
+              {chainVerification.unchainedSnapshots > 0 &&
+                ` ${chainVerification.unchainedSnapshots} older snapshots predate the chain and were not checked.`}
+              {chainVerification.issues.length > 0 && (
+                <ul className="mt-2 space-y-1 text-xs">
+                  {chainVerification.issues.map((issue) => (
+                    <li key={`${issue.snapshotId}-${issue.type}`}>
+                      {format(new Date(issue.createdAt), 'PPpp')}: {issue.detail}
+                      {issue.type === 'gap' && ' (expected)'}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
         <ScrollArea className="h-[60vh] w-full">
           {loading ? (
             <div className="text-center py-8">Loading snapshots...</div>
@@ -270,66 +786,66 @@ export const SnapshotHistory = ({ open, onOpenChange, urlId, urlName }: Snapshot
             </div>
           ) : (
             <div className="space-y-2 pr-4">
-              {snapshots.map((snapshot) => (
-                <Card key={snapshot.id} className="p-4">
-                  <div className="flex items-center gap-3">
-                    <Checkbox
-                      checked={selectedSnapshots.includes(snapshot.id)}
-                      onCheckedChange={() => handleSelectSnapshot(snapshot.id)}
-                      disabled={
-                        selectedSnapshots.length >= 2 && 
-                        !selectedSnapshots.includes(snapshot.id)
-                      }
-                    />
-                    
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <span className="text-sm font-medium">
-                          {formatDistanceToNow(new Date(snapshot.created_at), { addSuffix: true })}
-                        </span>
-                        <Badge variant={getAlertColor(snapshot.alert_triggered)}>
-                          {snapshot.alert_triggered.toUpperCase()}
-                        </Badge>
-                        {snapshot.resolved && (
-                          <Badge variant="outline">Resolved</Badge>
-                        )}
-                      </div>
-                      <div className="flex gap-4 text-xs text-muted-foreground">
-                        <span>Status: {snapshot.status_code}</span>
-                        <span>Size: {snapshot.content_length.toLocaleString()} chars</span>
-                        {snapshot.change_percentage > 0 && (
-                          <span>Change: {(snapshot.change_percentage * 100).toFixed(1)}%</span>
-                        )}
-                      </div>
-                      {snapshot.pdf_file_path && (
-                        <div className="mt-1">
-                          <Button
-                            variant="link"
-                            size="sm"
-                            onClick={() => handleViewFile(snapshot.pdf_file_path)}
-                            className="h-auto p-0 text-xs text-primary hover:underline inline-flex items-center gap-1"
-                          >
-                            <ExternalLink className="h-3 w-3" />
-                            View Captured File
-                          </Button>
-                        </div>
-                      )}
-                    </div>
-
+              <LatencyChart snapshots={snapshots} />
+              {groupHeartbeatRuns(snapshots).map((item) =>
+                "snapshot" in item ? (
+                  renderSnapshot(item.snapshot)
+                ) : (
+                  <div key={item.runId} className="space-y-2">
                     <Button
+                      variant="ghost"
                       size="sm"
-                      variant="outline"
-                      onClick={() => handleDelete(snapshot.id)}
-                      title="Discard snapshot"
+                      className="w-full justify-start text-muted-foreground"
+                      onClick={() => handleToggleRun(item.runId)}
                     >
-                      <Trash2 className="h-4 w-4" />
+                      {expandedRuns.includes(item.runId) ? (
+                        <ChevronDown className="h-4 w-4 mr-1" />
+                      ) : (
+                        <ChevronRight className="h-4 w-4 mr-1" />
+                      )}
+                      {item.heartbeats.length} unchanged checks,{" "}
+                      {formatDistanceToNow(new Date(item.heartbeats[item.heartbeats.length - 1].created_at), { addSuffix: true })}
+                      {" – "}
+                      {formatDistanceToNow(new Date(item.heartbeats[0].created_at), { addSuffix: true })}
                     </Button>
+                    {expandedRuns.includes(item.runId) && item.heartbeats.map(renderSnapshot)}
                   </div>
-                </Card>
-              ))}
+                )
+              )}
             </div>
           )}
         </ScrollArea>
+
+        <Dialog open={!!viewingScreenshot} onOpenChange={(open) => !open && setViewingScreenshot(null)}>
+          <DialogContent className="max-w-5xl max-h-[90vh]">
+            <DialogHeader>
+              <DialogTitle>Screenshot: {urlName}</DialogTitle>
+              {viewingScreenshot && (
+                <DialogDescription>
+                  Captured {format(new Date(viewingScreenshot.created_at), 'PPpp')}
+                </DialogDescription>
+              )}
+            </DialogHeader>
+            <ScrollArea className="h-[75vh] w-full rounded-md border">
+              {viewingScreenshot?.screenshot_path && (
+                <img
+                  src={getFileUrl(viewingScreenshot.screenshot_path) ?? undefined}
+                  alt={`Full-page screenshot of ${urlName}`}
+                  className="w-full"
+                />
+              )}
+            </ScrollArea>
+          </DialogContent>
+        </Dialog>
+
+        <LegalHoldDialog
+          open={!!holdingSnapshotId}
+          onOpenChange={(open) => !open && setHoldingSnapshotId(null)}
+          urlId={urlId}
+          snapshotId={holdingSnapshotId}
+          targetName={urlName}
+          onChanged={loadSnapshots}
+        />
       </DialogContent>
     </Dialog>
   );
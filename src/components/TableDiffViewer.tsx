@@ -0,0 +1,110 @@
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CellChange, ChangeStatus, diffTables, SnapshotTable } from "@/lib/tableDiff";
+
+interface TableDiffViewerProps {
+  oldTables: SnapshotTable[];
+  newTables: SnapshotTable[];
+}
+
+const ROW_CLASSES: Record<ChangeStatus, string> = {
+  added: "bg-green-100 dark:bg-green-900/30",
+  removed: "bg-red-100 dark:bg-red-900/30 line-through",
+  changed: "",
+  unchanged: "",
+};
+
+const STATUS_LABELS: Record<ChangeStatus, string> = {
+  added: "New table",
+  removed: "Removed table",
+  changed: "Changed",
+  unchanged: "Unchanged",
+};
+
+// A changed cell shows the old value struck through next to the new one
+const CellValue = ({ cell }: { cell: CellChange }) =>
+  cell.changed && cell.before && cell.after ? (
+    <>
+      <span className="text-red-900 dark:text-red-100 line-through">{cell.before}</span>
+      {" → "}
+      <span className="text-green-900 dark:text-green-100 font-medium">{cell.after}</span>
+    </>
+  ) : (
+    <>{cell.after ?? cell.before}</>
+  );
+
+const cellClass = (cell: CellChange, rowStatus: ChangeStatus) =>
+  cell.changed && rowStatus === "changed" ? "bg-yellow-100 dark:bg-yellow-900/30" : "";
+
+export const TableDiffViewer = ({ oldTables, newTables }: TableDiffViewerProps) => {
+  const diffs = useMemo(() => diffTables(oldTables, newTables), [oldTables, newTables]);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const changedTables = diffs.filter((diff) => diff.status !== "unchanged");
+  const changedCells = diffs.reduce((total, diff) => total + diff.changedCells, 0);
+  const visibleTables = showUnchanged ? diffs : changedTables;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <span className="text-sm text-muted-foreground">
+          {changedCells} {changedCells === 1 ? "cell" : "cells"} changed in {changedTables.length} of {diffs.length} tables
+        </span>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="show-unchanged-tables"
+            checked={showUnchanged}
+            onCheckedChange={(checked) => setShowUnchanged(checked === true)}
+          />
+          <Label htmlFor="show-unchanged-tables" className="text-sm">Show unchanged tables and rows</Label>
+        </div>
+      </div>
+
+      {visibleTables.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground">No table changed</div>
+      )}
+
+      {visibleTables.map((diff) => (
+        <div key={diffs.indexOf(diff)} className="space-y-2">
+          <div className="flex items-center gap-2">
+            <h4 className="text-sm font-medium">
+              Table {diffs.indexOf(diff) + 1}{diff.caption ? `: ${diff.caption}` : ""}
+            </h4>
+            <Badge variant={diff.status === "unchanged" ? "secondary" : "default"}>
+              {STATUS_LABELS[diff.status]}
+            </Badge>
+          </div>
+          <Table>
+            {diff.headers.length > 0 && (
+              <TableHeader>
+                <TableRow>
+                  {diff.headers.map((cell, column) => (
+                    <TableHead key={column} className={cellClass(cell, diff.status)}>
+                      <CellValue cell={cell} />
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+            )}
+            <TableBody>
+              {diff.rows
+                .filter((row) => showUnchanged || row.status !== "unchanged")
+                .map((row, index) => (
+                  <TableRow key={index} className={ROW_CLASSES[row.status]}>
+                    {row.cells.map((cell, column) => (
+                      <TableCell key={column} className={cellClass(cell, row.status)}>
+                        <CellValue cell={cell} />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </div>
+      ))}
+    </div>
+  );
+};
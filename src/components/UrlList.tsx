@@ -4,41 +4,79 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
-import { RefreshCw, Trash2, ExternalLink, Clock, AlertCircle, FileText, History } from "lucide-react";
+import { RefreshCw, Trash2, ExternalLink, Clock, AlertCircle, FileText, History, Pencil, Pause, Play, Shield, ShieldCheck, Gauge, TextSearch } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 import { ViewContentDialog } from "@/components/ViewContentDialog";
 import { SnapshotHistory } from "@/components/SnapshotHistory";
+import { AddUrlDialog } from "@/components/AddUrlDialog";
+import { PauseDialog } from "@/components/PauseDialog";
+import { LegalHoldDialog } from "@/components/LegalHoldDialog";
+import { ValueWatchersDialog } from "@/components/ValueWatchersDialog";
+import { KeywordRulesDialog } from "@/components/KeywordRulesDialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { Json } from "@/integrations/supabase/types";
+import { computeUptime, DowntimePeriod, UPTIME_WINDOW_DAYS } from "@/lib/availability";
 
 interface MonitoredUrl {
   id: string;
   url: string;
   name: string | null;
   check_frequency_hours: number;
+  schedule_cron: string | null;
+  schedule_timezone: string;
+  next_check_at: string | null;
   last_checked_at: string | null;
   is_active: boolean;
+  paused_until: string | null;
   yellow_threshold: number;
   red_threshold: number;
+  consecutive_failures: number;
+  failure_yellow_threshold: number;
+  failure_red_threshold: number;
+  expected_status_codes: number[];
+  cert_expiry_alert_days: number;
+  capture_screenshot: boolean;
+  visual_diff_tolerance: number;
+  visual_yellow_threshold: number | null;
+  visual_red_threshold: number | null;
+  availability_status: string | null;
+  availability_changed_at: string | null;
   use_javascript_rendering: boolean;
+  alert_webhook_url: string | null;
+  alert_webhook_payload: Json | null;
+  include_selectors: string[];
+  exclude_selectors: string[];
   created_at: string;
 }
 
 interface LatestSnapshot {
   alert_triggered: string;
   change_percentage: number;
+  diff_score: number | null;
   created_at: string;
   content_text: string;
   content_length: number;
   status_code: number;
   resolved: boolean;
+  check_failed: boolean;
+  error_category: string | null;
 }
 
 export const UrlList = () => {
   const [urls, setUrls] = useState<MonitoredUrl[]>([]);
   const [snapshots, setSnapshots] = useState<Record<string, LatestSnapshot>>({});
+  const [downtimes, setDowntimes] = useState<DowntimePeriod[]>([]);
+  const [heldUrlIds, setHeldUrlIds] = useState<string[]>([]);
+  const [holdingUrl, setHoldingUrl] = useState<{ urlId: string; urlName: string } | null>(null);
   const [loading, setLoading] = useState(true);
   const [checkingId, setCheckingId] = useState<string | null>(null);
   const [viewingContent, setViewingContent] = useState<{ urlId: string; urlName: string } | null>(null);
   const [viewingHistory, setViewingHistory] = useState<{ urlId: string; urlName: string } | null>(null);
+  const [watchingValues, setWatchingValues] = useState<{ urlId: string; urlName: string } | null>(null);
+  const [editingKeywords, setEditingKeywords] = useState<{ urlId: string; urlName: string } | null>(null);
+  const [editingUrl, setEditingUrl] = useState<MonitoredUrl | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [pausingIds, setPausingIds] = useState<string[] | null>(null);
   const { toast } = useToast();
 
   const loadUrls = async () => {
@@ -51,14 +89,40 @@ export const UrlList = () => {
       if (error) throw error;
       setUrls(data || []);
 
+      // Downtime periods overlapping the uptime window (ongoing outages have no end yet)
+      const windowStart = new Date(Date.now() - UPTIME_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+      const { data: downtimeData, error: downtimeError } = await supabase
+        .from("downtime_periods")
+        .select("monitored_url_id, started_at, ended_at")
+        .or(`ended_at.is.null,ended_at.gte.${windowStart.toISOString()}`);
+
+      if (downtimeError) {
+        console.error("Error loading downtime periods:", downtimeError);
+      } else {
+        setDowntimes(downtimeData || []);
+      }
+
+      const { data: holdData, error: holdError } = await supabase
+        .from("legal_holds")
+        .select("monitored_url_id")
+        .eq("scope", "url")
+        .is("lifted_at", null);
+
+      if (holdError) {
+        console.error("Error loading legal holds:", holdError);
+      } else {
+        setHeldUrlIds((holdData || []).map((hold) => hold.monitored_url_id as string));
+      }
+
       // Load latest snapshots for each URL
       if (data) {
         for (const url of data) {
           const { data: snapshotData } = await supabase
             .from("content_snapshots")
-            .select("alert_triggered, change_percentage, created_at, content_text, content_length, status_code, resolved")
+            .select("alert_triggered, change_percentage, diff_score, created_at, content_text, content_length, status_code, resolved, check_failed, error_category")
             .eq("monitored_url_id", url.id)
             .eq("resolved", false) // Only show unresolved alerts
+            .eq("heartbeat", false) // Unchanged checks carry no content of their own
             .order("created_at", { ascending: false })
             .limit(1)
             .maybeSingle();
@@ -91,6 +155,16 @@ export const UrlList = () => {
         { event: "*", schema: "public", table: "monitored_urls" },
         () => loadUrls()
       )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "downtime_periods" },
+        () => loadUrls()
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "legal_holds" },
+        () => loadUrls()
+      )
       .subscribe();
 
     return () => {
@@ -107,10 +181,18 @@ export const UrlList = () => {
 
       if (error) throw error;
 
-      toast({
-        title: "Check Complete",
-        description: `Alert Level: ${data.alertLevel.toUpperCase()}`,
-      });
+      if (data.checkFailed) {
+        toast({
+          title: "Check Failed",
+          description: data.error,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Check Complete",
+          description: `Alert Level: ${data.alertLevel.toUpperCase()}`,
+        });
+      }
 
       loadUrls();
     } catch (error) {
@@ -142,12 +224,45 @@ export const UrlList = () => {
       console.error("Error deleting URL:", error);
       toast({
         title: "Error",
-        description: "Failed to delete URL",
+        // Snapshots under legal hold block the delete in the database
+        description: (error as { message?: string })?.message?.includes("legal hold")
+          ? "Some snapshots of this URL are under legal hold"
+          : "Failed to delete URL",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleResume = async (urlIds: string[]) => {
+    try {
+      const { error } = await supabase
+        .from("monitored_urls")
+        .update({ is_active: true, paused_until: null })
+        .in("id", urlIds);
+
+      if (error) throw error;
+
+      toast({
+        title: "Resumed",
+        description: urlIds.length === 1 ? "Monitoring resumed" : `${urlIds.length} URLs resumed`,
+      });
+      setSelectedIds([]);
+    } catch (error) {
+      console.error("Error resuming URLs:", error);
+      toast({
+        title: "Error",
+        description: "Failed to resume monitoring",
         variant: "destructive",
       });
     }
   };
 
+  const handleToggleSelected = (urlId: string) => {
+    setSelectedIds(prev =>
+      prev.includes(urlId) ? prev.filter(id => id !== urlId) : [...prev, urlId]
+    );
+  };
+
   const getAlertBadge = (urlId: string) => {
     const snapshot = snapshots[urlId];
     if (!snapshot) return null;
@@ -158,19 +273,51 @@ export const UrlList = () => {
       ? "default" 
       : "secondary";
 
+    // Snapshots taken before diff scoring only have the length-based percentage
+    const changeScore = snapshot.diff_score ?? snapshot.change_percentage;
+
     return (
       <Badge variant={variant} className="gap-1">
         <AlertCircle className="h-3 w-3" />
         {snapshot.alert_triggered.toUpperCase()}
-        {snapshot.change_percentage > 0 && (
+        {snapshot.check_failed && (
+          <span className="ml-1">· {snapshot.error_category?.toUpperCase() ?? "CHECK"} FAILURE</span>
+        )}
+        {!snapshot.check_failed && changeScore > 0 && (
           <span className="ml-1">
-            ({(snapshot.change_percentage * 100).toFixed(1)}%)
+            ({(changeScore * 100).toFixed(1)}%)
           </span>
         )}
       </Badge>
     );
   };
 
+  const getAvailabilityBadge = (url: MonitoredUrl) => {
+    if (!url.availability_status) return null;
+
+    const isDown = url.availability_status === "down";
+    const since = url.availability_changed_at
+      ? formatDistanceToNow(new Date(url.availability_changed_at))
+      : null;
+
+    return (
+      <Badge variant={isDown ? "destructive" : "outline"} title={since ? `${isDown ? "Down" : "Up"} for ${since}` : undefined}>
+        {isDown ? "DOWN" : "UP"}
+        {isDown && since && <span className="ml-1">· {since}</span>}
+      </Badge>
+    );
+  };
+
+  const getUptime = (urlId: string) => {
+    const windowEnd = new Date();
+    const windowStart = new Date(windowEnd.getTime() - UPTIME_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    return computeUptime(
+      downtimes.filter((period) => period.monitored_url_id === urlId),
+      windowStart,
+      windowEnd,
+    );
+  };
+
   if (loading) {
     return <div className="text-center py-8">Loading...</div>;
   }
@@ -189,13 +336,47 @@ export const UrlList = () => {
 
   return (
     <div className="grid gap-4">
+      {selectedIds.length > 0 && (
+        <Card>
+          <CardContent className="py-3 flex items-center justify-between gap-2">
+            <p className="text-sm font-medium">{selectedIds.length} selected</p>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => setPausingIds(selectedIds)}>
+                <Pause className="h-4 w-4 mr-1" />
+                Pause
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleResume(selectedIds)}>
+                <Play className="h-4 w-4 mr-1" />
+                Resume
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setSelectedIds([])}>
+                Clear
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {urls.map((url) => (
         <Card key={url.id}>
           <CardHeader>
             <div className="flex items-start justify-between">
+              <Checkbox
+                className="mt-1 mr-3"
+                checked={selectedIds.includes(url.id)}
+                onCheckedChange={() => handleToggleSelected(url.id)}
+                aria-label="Select URL"
+              />
               <div className="flex-1">
                 <CardTitle className="text-lg flex items-center gap-2">
                   {url.name || "Unnamed URL"}
+                  {getAvailabilityBadge(url)}
+                  {heldUrlIds.includes(url.id) && (
+                    <Badge variant="outline" className="gap-1">
+                      <ShieldCheck className="h-3 w-3" />
+                      Legal hold
+                    </Badge>
+                  )}
                   {getAlertBadge(url.id)}
                 </CardTitle>
                 <CardDescription className="flex items-center gap-2 mt-1">
@@ -228,6 +409,22 @@ export const UrlList = () => {
                 >
                   <History className="h-4 w-4" />
                 </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setWatchingValues({ urlId: url.id, urlName: url.name || url.url })}
+                  title="Watched values"
+                >
+                  <Gauge className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setEditingKeywords({ urlId: url.id, urlName: url.name || url.url })}
+                  title="Keyword rules"
+                >
+                  <TextSearch className="h-4 w-4" />
+                </Button>
                 <Button
                   size="sm"
                   variant="outline"
@@ -237,11 +434,47 @@ export const UrlList = () => {
                 >
                   <RefreshCw className={`h-4 w-4 ${checkingId === url.id ? "animate-spin" : ""}`} />
                 </Button>
+                {url.is_active ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setPausingIds([url.id])}
+                    title="Pause monitoring"
+                  >
+                    <Pause className="h-4 w-4" />
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleResume([url.id])}
+                    title="Resume monitoring"
+                  >
+                    <Play className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setEditingUrl(url)}
+                  title="Edit settings"
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setHoldingUrl({ urlId: url.id, urlName: url.name || url.url })}
+                  title={heldUrlIds.includes(url.id) ? "Lift legal hold" : "Place legal hold"}
+                >
+                  {heldUrlIds.includes(url.id) ? <ShieldCheck className="h-4 w-4" /> : <Shield className="h-4 w-4" />}
+                </Button>
                 <Button
                   size="sm"
                   variant="outline"
                   onClick={() => handleDelete(url.id)}
-                  title="Delete"
+                  disabled={heldUrlIds.includes(url.id)}
+                  title={heldUrlIds.includes(url.id) ? "Under legal hold" : "Delete"}
                 >
                   <Trash2 className="h-4 w-4" />
                 </Button>
@@ -249,12 +482,34 @@ export const UrlList = () => {
             </div>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
               <div>
-                <p className="text-muted-foreground">Check Frequency</p>
+                <p className="text-muted-foreground">Schedule</p>
                 <p className="font-medium flex items-center gap-1">
                   <Clock className="h-3 w-3" />
-                  Every {url.check_frequency_hours}h
+                  {url.schedule_cron ? (
+                    <span className="font-mono" title={url.schedule_timezone}>
+                      {url.schedule_cron}
+                    </span>
+                  ) : (
+                    <>Every {url.check_frequency_hours}h</>
+                  )}
+                </p>
+                {url.schedule_cron && (
+                  <p className="text-xs text-muted-foreground">{url.schedule_timezone}</p>
+                )}
+              </div>
+              <div>
+                <p className="text-muted-foreground">Next Run</p>
+                <p
+                  className="font-medium"
+                  title={url.next_check_at ? new Date(url.next_check_at).toLocaleString() : undefined}
+                >
+                  {!url.is_active
+                    ? "Paused"
+                    : url.next_check_at && new Date(url.next_check_at).getTime() > Date.now()
+                    ? formatDistanceToNow(new Date(url.next_check_at), { addSuffix: true })
+                    : "Due now"}
                 </p>
               </div>
               <div>
@@ -279,11 +534,32 @@ export const UrlList = () => {
                   Yellow: {url.yellow_threshold * 100}% / Red: {url.red_threshold * 100}%
                 </p>
               </div>
+              <div>
+                <p className="text-muted-foreground">Uptime ({UPTIME_WINDOW_DAYS}d)</p>
+                <p className="font-medium">
+                  {url.availability_status ? `${(getUptime(url.id) * 100).toFixed(2)}%` : "—"}
+                </p>
+                {url.expected_status_codes.join(",") !== "200" && (
+                  <p className="text-xs text-muted-foreground">
+                    Expects {url.expected_status_codes.join(", ")}
+                  </p>
+                )}
+              </div>
               <div>
                 <p className="text-muted-foreground">Status</p>
                 <Badge variant={url.is_active ? "default" : "secondary"}>
-                  {url.is_active ? "Active" : "Inactive"}
+                  {url.is_active ? "Active" : "Paused"}
                 </Badge>
+                {url.consecutive_failures > 0 && (
+                  <p className="text-xs text-destructive mt-1">
+                    {url.consecutive_failures} failed check{url.consecutive_failures === 1 ? "" : "s"} in a row
+                  </p>
+                )}
+                {!url.is_active && url.paused_until && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Resumes {formatDistanceToNow(new Date(url.paused_until), { addSuffix: true })}
+                  </p>
+                )}
               </div>
             </div>
           </CardContent>
@@ -303,6 +579,42 @@ export const UrlList = () => {
         urlId={viewingHistory?.urlId || ""}
         urlName={viewingHistory?.urlName || ""}
       />
+
+      <ValueWatchersDialog
+        open={!!watchingValues}
+        onOpenChange={(open) => !open && setWatchingValues(null)}
+        urlId={watchingValues?.urlId || ""}
+        urlName={watchingValues?.urlName || ""}
+      />
+
+      <KeywordRulesDialog
+        open={!!editingKeywords}
+        onOpenChange={(open) => !open && setEditingKeywords(null)}
+        urlId={editingKeywords?.urlId || ""}
+        urlName={editingKeywords?.urlName || ""}
+      />
+
+      <AddUrlDialog
+        open={!!editingUrl}
+        onOpenChange={(open) => !open && setEditingUrl(null)}
+        editingUrl={editingUrl}
+        onUrlSaved={loadUrls}
+      />
+
+      <LegalHoldDialog
+        open={!!holdingUrl}
+        onOpenChange={(open) => !open && setHoldingUrl(null)}
+        urlId={holdingUrl?.urlId || ""}
+        targetName={holdingUrl?.urlName || ""}
+        onChanged={loadUrls}
+      />
+
+      <PauseDialog
+        open={!!pausingIds}
+        onOpenChange={(open) => !open && setPausingIds(null)}
+        urlIds={pausingIds || []}
+        onPaused={() => setSelectedIds([])}
+      />
     </div>
   );
 };
\ No newline at end of file
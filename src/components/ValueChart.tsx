@@ -0,0 +1,56 @@
+import { Line, LineChart, ReferenceLine, XAxis, YAxis, CartesianGrid } from "recharts";
+import { format } from "date-fns";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+
+interface ValuePoint {
+  observed_at: string;
+  value: number | null;
+}
+
+interface ValueChartProps {
+  // Newest first, as they are loaded
+  observations: ValuePoint[];
+  // Drawn as a dashed line, e.g. the threshold of a crosses rule
+  threshold?: number | null;
+}
+
+const chartConfig = {
+  value: {
+    label: "Value",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+export const ValueChart = ({ observations, threshold }: ValueChartProps) => {
+  const data = observations
+    .filter((observation) => observation.value !== null)
+    .map((observation) => ({
+      observedAt: format(new Date(observation.observed_at), "MMM d HH:mm"),
+      value: observation.value,
+    }))
+    .reverse();
+
+  // A single point is not a trend
+  if (data.length < 2) return null;
+
+  return (
+    <ChartContainer config={chartConfig} className="h-32 w-full">
+      <LineChart data={data} margin={{ left: 0, right: 8, top: 8, bottom: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis dataKey="observedAt" tickLine={false} axisLine={false} minTickGap={32} />
+        <YAxis tickLine={false} axisLine={false} width={48} domain={["auto", "auto"]} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        {threshold !== null && threshold !== undefined && (
+          <ReferenceLine y={threshold} stroke="hsl(var(--destructive))" strokeDasharray="4 4" />
+        )}
+        <Line
+          dataKey="value"
+          type="stepAfter"
+          stroke="var(--color-value)"
+          strokeWidth={2}
+          dot={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+};
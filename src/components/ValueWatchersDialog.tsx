@@ -0,0 +1,462 @@
+import { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { patternProblem } from "@/lib/patterns";
+import { formatDistanceToNow } from "date-fns";
+import { FlaskConical, Trash2 } from "lucide-react";
+import { ValueChart } from "./ValueChart";
+
+const NO_RULE = "none";
+
+// Observations loaded per watcher for the chart
+const OBSERVATION_LIMIT = 200;
+
+interface ValueWatcher {
+  id: string;
+  name: string;
+  extractor: string;
+  pattern: string;
+  alert_rule: string | null;
+  alert_value: number | null;
+  is_active: boolean;
+}
+
+interface ValueObservation {
+  id: string;
+  watcher_id: string;
+  value: number | null;
+  matched_text: string | null;
+  error: string | null;
+  alert_message: string | null;
+  observed_at: string;
+}
+
+// Result of trying a watcher out with check-url's preview mode
+interface ValueTest {
+  value: number | null;
+  matchedText: string | null;
+  error: string | null;
+}
+
+const RULE_LABELS: Record<string, string> = {
+  [NO_RULE]: "No alert, record only",
+  changed: "Alert when the value changes",
+  crosses_below: "Alert when it falls below…",
+  crosses_above: "Alert when it rises above…",
+  crosses: "Alert when it crosses…",
+  moves_bps: "Alert when it moves more than … bps",
+};
+
+const describeRule = (watcher: ValueWatcher) => {
+  switch (watcher.alert_rule) {
+    case "changed":
+      return "Alerts on any change";
+    case "crosses_below":
+      return `Alerts below ${watcher.alert_value}`;
+    case "crosses_above":
+      return `Alerts above ${watcher.alert_value}`;
+    case "crosses":
+      return `Alerts crossing ${watcher.alert_value}`;
+    case "moves_bps":
+      return `Alerts on moves over ${watcher.alert_value} bps`;
+    default:
+      return "No alert";
+  }
+};
+
+interface ValueWatchersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  urlId: string;
+  urlName: string;
+}
+
+export const ValueWatchersDialog = ({ open, onOpenChange, urlId, urlName }: ValueWatchersDialogProps) => {
+  const [watchers, setWatchers] = useState<ValueWatcher[]>([]);
+  const [observations, setObservations] = useState<Record<string, ValueObservation[]>>({});
+  const [name, setName] = useState("");
+  const [extractor, setExtractor] = useState("selector");
+  const [pattern, setPattern] = useState("");
+  const [alertRule, setAlertRule] = useState(NO_RULE);
+  const [alertValue, setAlertValue] = useState("");
+  const [test, setTest] = useState<ValueTest | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  const loadWatchers = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("value_watchers")
+      .select("id, name, extractor, pattern, alert_rule, alert_value, is_active")
+      .eq("monitored_url_id", urlId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error loading value watchers:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load value watchers",
+        variant: "destructive",
+      });
+      return;
+    }
+    setWatchers(data || []);
+
+    // One query per watcher keeps every series at the same depth
+    const series = await Promise.all((data || []).map((watcher) =>
+      supabase
+        .from("value_observations")
+        .select("id, watcher_id, value, matched_text, error, alert_message, observed_at")
+        .eq("watcher_id", watcher.id)
+        .order("observed_at", { ascending: false })
+        .limit(OBSERVATION_LIMIT)
+    ));
+    const seriesError = series.find((result) => result.error)?.error;
+    if (seriesError) {
+      console.error("Error loading value observations:", seriesError);
+    }
+    setObservations(Object.fromEntries((data || []).map((watcher, index) => [watcher.id, series[index].data || []])));
+  }, [urlId, toast]);
+
+  const resetForm = () => {
+    setName("");
+    setExtractor("selector");
+    setPattern("");
+    setAlertRule(NO_RULE);
+    setAlertValue("");
+    setTest(null);
+  };
+
+  useEffect(() => {
+    if (open && urlId) {
+      resetForm();
+      setWatchers([]);
+      setObservations({});
+      loadWatchers();
+    }
+  }, [open, urlId, loadWatchers]);
+
+  // Returns an error message for the draft watcher, or null when it can be saved
+  const validateDraft = () => {
+    if (!name.trim()) return "Give the value a name";
+    if (!pattern.trim()) return extractor === "selector" ? "Enter a CSS selector" : "Enter a regular expression";
+    if (extractor === "regex") {
+      const problem = patternProblem(pattern);
+      if (problem) return problem;
+    }
+    if (alertRule !== NO_RULE && alertRule !== "changed") {
+      const value = Number(alertValue);
+      if (!alertValue.trim() || !Number.isFinite(value)) return "Enter the number the rule compares against";
+      if (alertRule === "moves_bps" && value <= 0) return "Basis points must be greater than 0";
+    }
+    return null;
+  };
+
+  const handleTest = async () => {
+    const draftError = validateDraft();
+    if (draftError) {
+      toast({ title: "Invalid value watcher", description: draftError, variant: "destructive" });
+      return;
+    }
+
+    setIsTesting(true);
+    try {
+      const { data: url, error: urlError } = await supabase
+        .from("monitored_urls")
+        .select("url, use_javascript_rendering, include_selectors, exclude_selectors")
+        .eq("id", urlId)
+        .single();
+
+      if (urlError) throw urlError;
+
+      const { data, error } = await supabase.functions.invoke("check-url", {
+        body: {
+          preview: {
+            ...url,
+            value_watchers: [{ name: name.trim(), extractor, pattern, alert_rule: null, alert_value: null }],
+          },
+        },
+      });
+
+      if (error) throw error;
+      if (data.error) throw new Error(data.error);
+
+      setTest(data.values[0]);
+    } catch (error) {
+      console.error("Error testing value watcher:", error);
+      setTest(null);
+      toast({
+        title: "Test failed",
+        description: error instanceof Error ? error.message : "Could not fetch the page",
+        variant: "destructive",
+      });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const draftError = validateDraft();
+    if (draftError) {
+      toast({ title: "Invalid value watcher", description: draftError, variant: "destructive" });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { error } = await supabase.from("value_watchers").insert({
+        monitored_url_id: urlId,
+        name: name.trim(),
+        extractor,
+        pattern,
+        alert_rule: alertRule === NO_RULE ? null : alertRule,
+        alert_value: alertRule === NO_RULE || alertRule === "changed" ? null : Number(alertValue),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Value watcher added",
+        description: "The value is read on the next check",
+      });
+      resetForm();
+      loadWatchers();
+    } catch (error) {
+      console.error("Error adding value watcher:", error);
+      toast({
+        title: "Error",
+        description: (error as { code?: string })?.code === "23505"
+          ? "This URL already has a value with that name"
+          : "Failed to add value watcher",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleToggle = async (watcher: ValueWatcher, isActive: boolean) => {
+    try {
+      const { error } = await supabase.from("value_watchers").update({ is_active: isActive }).eq("id", watcher.id);
+      if (error) throw error;
+      loadWatchers();
+    } catch (error) {
+      console.error("Error updating value watcher:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update value watcher",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (watcher: ValueWatcher) => {
+    try {
+      const { error } = await supabase.from("value_watchers").delete().eq("id", watcher.id);
+      if (error) throw error;
+
+      toast({
+        title: "Deleted",
+        description: `${watcher.name} and its recorded values were removed`,
+      });
+      loadWatchers();
+    } catch (error) {
+      console.error("Error deleting value watcher:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete value watcher",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const needsAlertValue = alertRule !== NO_RULE && alertRule !== "changed";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle>Watched Values: {urlName}</DialogTitle>
+          <DialogDescription>
+            Numbers read from the page on every check, with optional alerts sent to the URL's webhook.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[70vh] pr-4">
+          <div className="space-y-4">
+            {watchers.length === 0 && (
+              <p className="text-sm text-muted-foreground">No values are watched on this URL yet.</p>
+            )}
+
+            {watchers.map((watcher) => {
+              const series = observations[watcher.id] || [];
+              const latest = series[0];
+              const lastAlert = series.find((observation) => observation.alert_message);
+
+              return (
+                <Card key={watcher.id} className="p-4 space-y-2">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{watcher.name}</span>
+                        <Badge variant="outline">{watcher.extractor === "selector" ? "Selector" : "Regex"}</Badge>
+                        <span className="text-xs text-muted-foreground">{describeRule(watcher)}</span>
+                      </div>
+                      <p className="text-xs font-mono text-muted-foreground truncate" title={watcher.pattern}>
+                        {watcher.pattern}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={watcher.is_active}
+                        onCheckedChange={(checked) => handleToggle(watcher, checked)}
+                        title={watcher.is_active ? "Stop reading this value" : "Resume reading this value"}
+                      />
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(watcher)} title="Delete">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  {latest ? (
+                    <p className="text-sm">
+                      {latest.value !== null ? (
+                        <span className="text-lg font-semibold">{latest.value}</span>
+                      ) : (
+                        <span className="text-destructive">{latest.error}</span>
+                      )}
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(latest.observed_at), { addSuffix: true })}
+                        {latest.matched_text && ` · "${latest.matched_text}"`}
+                      </span>
+                    </p>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Not read yet</p>
+                  )}
+
+                  {lastAlert && (
+                    <p className="text-xs text-muted-foreground">
+                      Last alert: {lastAlert.alert_message} ({formatDistanceToNow(new Date(lastAlert.observed_at), { addSuffix: true })})
+                    </p>
+                  )}
+
+                  <ValueChart
+                    observations={series}
+                    threshold={watcher.alert_rule?.startsWith("crosses") ? watcher.alert_value : null}
+                  />
+                </Card>
+              );
+            })}
+
+            <form onSubmit={handleAdd} className="space-y-4 border-t pt-4">
+              <Label>Watch a Value</Label>
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="value-name">Name</Label>
+                  <Input
+                    id="value-name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Savings APY"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="value-extractor">Read With</Label>
+                  <Select value={extractor} onValueChange={(value) => { setExtractor(value); setTest(null); }}>
+                    <SelectTrigger id="value-extractor">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="selector">CSS selector</SelectItem>
+                      <SelectItem value="regex">Regular expression</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="value-pattern">{extractor === "selector" ? "Selector" : "Pattern"}</Label>
+                  <Input
+                    id="value-pattern"
+                    value={pattern}
+                    onChange={(e) => { setPattern(e.target.value); setTest(null); }}
+                    placeholder={extractor === "selector" ? "#savings .apy" : "APY of ([\\d.]+)%"}
+                    className="font-mono"
+                  />
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {extractor === "selector"
+                  ? "The first number in the first matching element is read, looking only at the monitored part of the page (include and exclude selectors apply). Selectors only work on HTML pages."
+                  : "Matched against the page's monitored text; the first capture group is read if there is one."}
+              </p>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <Label htmlFor="value-rule">Alert Rule</Label>
+                  <Select value={alertRule} onValueChange={setAlertRule}>
+                    <SelectTrigger id="value-rule">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(RULE_LABELS).map(([rule, label]) => (
+                        <SelectItem key={rule} value={rule}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {needsAlertValue && (
+                  <div>
+                    <Label htmlFor="value-threshold">{alertRule === "moves_bps" ? "Basis Points" : "Threshold"}</Label>
+                    <Input
+                      id="value-threshold"
+                      type="number"
+                      step="any"
+                      value={alertValue}
+                      onChange={(e) => setAlertValue(e.target.value)}
+                      placeholder={alertRule === "moves_bps" ? "25" : "4.0"}
+                    />
+                  </div>
+                )}
+              </div>
+              {alertRule === "moves_bps" && (
+                <p className="text-sm text-muted-foreground">
+                  Values are read as shown on the page, so for a rate of 4.25% one basis point is 0.01.
+                </p>
+              )}
+
+              {test && (
+                <p className="text-sm">
+                  {test.value !== null ? (
+                    <>Reads <span className="font-semibold">{test.value}</span> from "{test.matchedText}"</>
+                  ) : (
+                    <span className="text-destructive">{test.error}</span>
+                  )}
+                </p>
+              )}
+
+              <div className="flex gap-2">
+                <Button type="submit" disabled={isSubmitting}>
+                  {isSubmitting ? "Adding..." : "Add Value"}
+                </Button>
+                <Button type="button" variant="outline" onClick={handleTest} disabled={isTesting} className="gap-1">
+                  <FlaskConical className="h-4 w-4" />
+                  {isTesting ? "Testing..." : "Test on Live Page"}
+                </Button>
+              </div>
+            </form>
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,10 +4,12 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { formatDistanceToNow } from "date-fns";
-import { Code, FileText, GitCompare, Check, ExternalLink } from "lucide-react";
+import { Code, FileText, GitCompare, Check, ExternalLink, AlertTriangle, Download } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { DiffViewer } from "./DiffViewer";
 import { useToast } from "@/hooks/use-toast";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { loadSnapshotRawBody, loadSnapshotText, SNAPSHOT_PREVIEW_LENGTH, SnapshotRawBody } from "@/lib/snapshots";
 
 
 // Helper function to extract text from HTML
@@ -17,6 +19,9 @@ const extractTextFromHtml = (html: string): string => {
   return doc.body.textContent || doc.body.innerText || '';
 };
 
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} bytes` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
 interface ViewContentDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -27,6 +32,7 @@ interface ViewContentDialogProps {
     created_at: string;
     alert_triggered: string;
     change_percentage: number;
+    diff_score: number | null;
   } | null;
   urlName: string;
 }
@@ -40,15 +46,28 @@ interface FullSnapshot {
   created_at: string;
   alert_triggered: string;
   change_percentage: number;
+  diff_score: number | null;
   resolved: boolean;
   resolved_at: string | null;
   pdf_file_path: string | null;
+  raw_body_path: string | null;
+  raw_content_type: string | null;
+  raw_sha256: string | null;
+  source_snapshot_id: string | null;
+  content_truncated: boolean;
+  check_failed: boolean;
+  error_category: string | null;
+  error_message: string | null;
 }
 
 export const ViewContentDialog = ({ open, onOpenChange, snapshot, urlName }: ViewContentDialogProps) => {
   const [viewMode, setViewMode] = useState<"text" | "raw" | "diff">("text");
   const [fullSnapshot, setFullSnapshot] = useState<FullSnapshot | null>(null);
   const [previousSnapshot, setPreviousSnapshot] = useState<FullSnapshot | null>(null);
+  const [currentText, setCurrentText] = useState<string | null>(null);
+  const [previousText, setPreviousText] = useState<string | null>(null);
+  // undefined until loaded, null when the snapshot has no stored raw body
+  const [rawBody, setRawBody] = useState<SnapshotRawBody | null | undefined>(undefined);
   const [isResolving, setIsResolving] = useState(false);
   const { toast } = useToast();
   
@@ -71,20 +90,45 @@ export const ViewContentDialog = ({ open, onOpenChange, snapshot, urlName }: Vie
           .from('content_snapshots')
           .select('*')
           .eq('monitored_url_id', currentData.monitored_url_id)
+          .eq('check_failed', false)
+          .eq('heartbeat', false)
           .lt('created_at', currentData.created_at)
           .order('created_at', { ascending: false })
           .limit(1)
           .maybeSingle();
         
         setPreviousSnapshot(prevData);
+
+        // Full texts are only loaded once the dialog is open
+        try {
+          setCurrentText(await loadSnapshotText(currentData));
+          setPreviousText(prevData ? await loadSnapshotText(prevData) : null);
+        } catch (error) {
+          console.error('Error loading snapshot text:', error);
+        }
       }
     };
 
     if (open && snapshot) {
+      setCurrentText(null);
+      setPreviousText(null);
+      setRawBody(undefined);
       fetchSnapshots();
     }
   }, [open, snapshot]);
 
+  // Raw bodies can be large, so they are only loaded when the tab is opened, and only text ones are downloaded
+  useEffect(() => {
+    if (viewMode !== "raw" || !fullSnapshot || rawBody !== undefined) return;
+
+    loadSnapshotRawBody(fullSnapshot)
+      .then(setRawBody)
+      .catch((error) => {
+        console.error('Error loading raw body:', error);
+        setRawBody(null);
+      });
+  }, [viewMode, fullSnapshot, rawBody]);
+
   const handleResolve = async () => {
     if (!fullSnapshot) return;
     
@@ -212,7 +256,7 @@ export const ViewContentDialog = ({ open, onOpenChange, snapshot, urlName }: Vie
                 onClick={() => setViewMode("raw")}
               >
                 <Code className="h-4 w-4 mr-1" />
-                Raw HTML
+                Raw
               </Button>
               {previousSnapshot && (
                 <Button
@@ -248,12 +292,14 @@ export const ViewContentDialog = ({ open, onOpenChange, snapshot, urlName }: Vie
             <span className="text-muted-foreground">
               Status: {snapshot.status_code}
             </span>
-            <span className="text-muted-foreground">
-              Size: {snapshot.content_length.toLocaleString()} chars
-            </span>
-            {snapshot.change_percentage > 0 && (
+            {snapshot.content_length !== null && (
               <span className="text-muted-foreground">
-                Change: {(snapshot.change_percentage * 100).toFixed(1)}%
+                Size: {snapshot.content_length.toLocaleString()} chars
+              </span>
+            )}
+            {(snapshot.diff_score ?? snapshot.change_percentage) > 0 && (
+              <span className="text-muted-foreground">
+                Change: {((snapshot.diff_score ?? snapshot.change_percentage) * 100).toFixed(1)}%
               </span>
             )}
             {fullSnapshot?.pdf_file_path && (
@@ -270,10 +316,30 @@ export const ViewContentDialog = ({ open, onOpenChange, snapshot, urlName }: Vie
           </DialogDescription>
         </DialogHeader>
 
+        {fullSnapshot?.check_failed && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              The latest check failed{fullSnapshot.error_category ? ` (${fullSnapshot.error_category})` : ""}:{" "}
+              {fullSnapshot.error_message || "Unknown error"}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {(fullSnapshot?.content_truncated || (viewMode === "diff" && previousSnapshot?.content_truncated)) && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              This content was captured when only the first {SNAPSHOT_PREVIEW_LENGTH.toLocaleString()} characters
+              were stored. Anything beyond that point is missing.
+            </AlertDescription>
+          </Alert>
+        )}
+
         <ScrollArea className="h-[60vh] w-full rounded-md border p-4">
           {viewMode === "text" ? (
             <div className="text-sm whitespace-pre-wrap break-words leading-relaxed">
-              {extractTextFromHtml(snapshot.content_text || 'No content available')}
+              {extractTextFromHtml(currentText ?? (snapshot.content_text || 'No content available'))}
             </div>
           ) : viewMode === "diff" && previousSnapshot ? (
             <div className="text-sm">
@@ -283,14 +349,45 @@ export const ViewContentDialog = ({ open, onOpenChange, snapshot, urlName }: Vie
                   {formatDistanceToNow(new Date(previousSnapshot.created_at), { addSuffix: true })}
                 </p>
               </div>
-              <DiffViewer 
-                oldText={extractTextFromHtml(previousSnapshot.content_text || '')}
-                newText={extractTextFromHtml(snapshot.content_text || '')}
-              />
+              {currentText !== null && previousText !== null ? (
+                <DiffViewer 
+                  oldText={extractTextFromHtml(previousText)}
+                  newText={extractTextFromHtml(currentText)}
+                />
+              ) : (
+                <div className="text-center py-8">Loading content...</div>
+              )}
+            </div>
+          ) : rawBody === undefined ? (
+            <div className="text-center py-8">Loading raw body...</div>
+          ) : rawBody === null ? (
+            <div className="text-sm">
+              <p className="mb-4 text-muted-foreground">
+                No raw body was stored for this snapshot. Showing the extracted text instead.
+              </p>
+              <pre className="whitespace-pre-wrap break-words">
+                {snapshot.content_text || 'No content available'}
+              </pre>
+            </div>
+          ) : rawBody.text === null ? (
+            <div className="space-y-2 py-8 text-sm text-center">
+              <p className="text-muted-foreground">
+                The raw body is binary content ({rawBody.contentType || "unknown type"}
+                {rawBody.size !== null && `, ${formatSize(rawBody.size)}`}) and is not shown here.
+              </p>
+              {rawBody.sha256 && (
+                <p className="font-mono text-xs break-all">SHA-256: {rawBody.sha256}</p>
+              )}
+              <Button size="sm" variant="outline" asChild>
+                <a href={getFileUrl(rawBody.path) ?? undefined} download>
+                  <Download className="h-4 w-4 mr-1" />
+                  Download
+                </a>
+              </Button>
             </div>
           ) : (
             <pre className="text-sm whitespace-pre-wrap break-words">
-              {snapshot.content_text || 'No content available'}
+              {rawBody.text}
             </pre>
           )}
         </ScrollArea>
@@ -0,0 +1,117 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { diffImages, MAX_VISUAL_DIFF_HEIGHT } from "@/lib/visualDiff";
+
+interface VisualDiffViewerProps {
+  beforeUrl: string;
+  afterUrl: string;
+  // Starting tolerance, usually the URL's visual_diff_tolerance
+  initialTolerance?: number;
+}
+
+type ViewMode = "changes" | "before" | "after";
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    // Needed to read the pixels of images served from storage
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Failed to load ${src}`));
+    image.src = src;
+  });
+
+// Draw an image at the top left of a blank canvas of the given size and read its pixels
+const toImageData = (image: HTMLImageElement, width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext("2d") as CanvasRenderingContext2D;
+  context.drawImage(image, 0, 0);
+  return context.getImageData(0, 0, width, height);
+};
+
+export const VisualDiffViewer = ({ beforeUrl, afterUrl, initialTolerance = 0.1 }: VisualDiffViewerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [images, setImages] = useState<[ImageData, ImageData] | null>(null);
+  // The slider moves freely; the diff is only recomputed once it is released
+  const [sliderTolerance, setSliderTolerance] = useState(initialTolerance);
+  const [tolerance, setTolerance] = useState(initialTolerance);
+  const [viewMode, setViewMode] = useState<ViewMode>("changes");
+  const [changeRatio, setChangeRatio] = useState<number | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setImages(null);
+    setLoadError(null);
+
+    Promise.all([loadImage(beforeUrl), loadImage(afterUrl)])
+      .then(([before, after]) => {
+        const width = Math.max(before.naturalWidth, after.naturalWidth);
+        const height = Math.min(Math.max(before.naturalHeight, after.naturalHeight), MAX_VISUAL_DIFF_HEIGHT);
+        setImages([toImageData(before, width, height), toImageData(after, width, height)]);
+      })
+      .catch((error) => {
+        console.error("Error loading screenshots:", error);
+        setLoadError("Could not load the screenshots");
+      });
+  }, [beforeUrl, afterUrl]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!images || !canvas) return;
+
+    const [before, after] = images;
+    canvas.width = after.width;
+    canvas.height = after.height;
+    const context = canvas.getContext("2d") as CanvasRenderingContext2D;
+
+    const diff = diffImages(before, after, tolerance);
+    setChangeRatio(diff.ratio);
+    context.putImageData(viewMode === "changes" ? diff.output : viewMode === "before" ? before : after, 0, 0);
+  }, [images, tolerance, viewMode]);
+
+  if (loadError) {
+    return <div className="text-center py-8 text-muted-foreground">{loadError}</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="flex gap-2">
+          {(["changes", "before", "after"] as const).map((mode) => (
+            <Button
+              key={mode}
+              size="sm"
+              variant={viewMode === mode ? "default" : "outline"}
+              onClick={() => setViewMode(mode)}
+            >
+              {mode === "changes" ? "Changes" : mode === "before" ? "Before" : "After"}
+            </Button>
+          ))}
+        </div>
+        <div className="flex flex-1 items-center gap-2 min-w-[200px]">
+          <Label className="whitespace-nowrap text-xs">Tolerance {sliderTolerance.toFixed(2)}</Label>
+          <Slider
+            value={[sliderTolerance]}
+            min={0}
+            max={1}
+            step={0.01}
+            onValueChange={([value]) => setSliderTolerance(value)}
+            onValueCommit={([value]) => setTolerance(value)}
+          />
+        </div>
+        {changeRatio !== null && (
+          <span className="text-sm text-muted-foreground">
+            {(changeRatio * 100).toFixed(2)}% of pixels changed
+          </span>
+        )}
+      </div>
+
+      {!images && <div className="text-center py-8">Loading screenshots...</div>}
+      <canvas ref={canvasRef} className={images ? "w-full h-auto" : "hidden"} />
+    </div>
+  );
+};
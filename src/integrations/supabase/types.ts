@@ -14,48 +14,255 @@ export type Database = {
   }
   public: {
     Tables: {
+      chain_heads: {
+        Row: {
+          chain_hash: string
+          monitored_url_id: string
+          snapshot_created_at: string
+          snapshot_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          chain_hash: string
+          monitored_url_id: string
+          snapshot_created_at: string
+          snapshot_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          chain_hash?: string
+          monitored_url_id?: string
+          snapshot_created_at?: string
+          snapshot_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chain_heads_monitored_url_id_fkey"
+            columns: ["monitored_url_id"]
+            isOneToOne: true
+            referencedRelation: "monitored_urls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      check_jobs: {
+        Row: {
+          attempts: number
+          created_at: string | null
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          last_error: string | null
+          lease_expires_at: string | null
+          max_attempts: number
+          monitored_url_id: string
+          run_after: string
+          started_at: string | null
+          status: Database["public"]["Enums"]["check_job_status"]
+          updated_at: string | null
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string | null
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          last_error?: string | null
+          lease_expires_at?: string | null
+          max_attempts?: number
+          monitored_url_id: string
+          run_after?: string
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["check_job_status"]
+          updated_at?: string | null
+        }
+        Update: {
+          attempts?: number
+          created_at?: string | null
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          last_error?: string | null
+          lease_expires_at?: string | null
+          max_attempts?: number
+          monitored_url_id?: string
+          run_after?: string
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["check_job_status"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "check_jobs_monitored_url_id_fkey"
+            columns: ["monitored_url_id"]
+            isOneToOne: false
+            referencedRelation: "monitored_urls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_snapshot_texts: {
+        Row: {
+          created_at: string | null
+          full_text: string
+          page_texts: string[] | null
+          snapshot_id: string
+          tables: Json | null
+        }
+        Insert: {
+          created_at?: string | null
+          full_text: string
+          page_texts?: string[] | null
+          snapshot_id: string
+          tables?: Json | null
+        }
+        Update: {
+          created_at?: string | null
+          full_text?: string
+          page_texts?: string[] | null
+          snapshot_id?: string
+          tables?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_snapshot_texts_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: true
+            referencedRelation: "content_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       content_snapshots: {
         Row: {
           alert_triggered: Database["public"]["Enums"]["alert_level"] | null
+          chain_hash: string | null
           change_percentage: number | null
-          content_hash: string
+          changed_pages: number[] | null
+          check_duration_ms: number | null
+          check_failed: boolean
+          content_hash: string | null
           content_length: number | null
           content_text: string | null
+          content_truncated: boolean
           created_at: string | null
+          diff_score: number | null
+          error_category: Database["public"]["Enums"]["check_error_category"] | null
+          error_class: string | null
+          error_message: string | null
+          file_sha256: string | null
+          final_url: string | null
+          heartbeat: boolean
           id: string
           monitored_url_id: string
+          not_modified: boolean
+          page_count: number | null
           pdf_file_path: string | null
+          pdf_render_method: string | null
+          previous_chain_hash: string | null
+          previous_snapshot_id: string | null
+          raw_body_path: string | null
+          raw_content_type: string | null
+          raw_sha256: string | null
+          redirect_chain: Json
+          removed_pages: number[] | null
           resolved: boolean | null
           resolved_at: string | null
+          response_headers: Json | null
+          response_time_ms: number | null
+          screenshot_path: string | null
+          source_snapshot_id: string | null
           status_code: number | null
+          tls_expires_at: string | null
+          tls_issuer: string | null
+          visual_change_percentage: number | null
         }
         Insert: {
           alert_triggered?: Database["public"]["Enums"]["alert_level"] | null
+          chain_hash?: string | null
           change_percentage?: number | null
-          content_hash: string
+          changed_pages?: number[] | null
+          check_duration_ms?: number | null
+          check_failed?: boolean
+          content_hash?: string | null
           content_length?: number | null
           content_text?: string | null
+          content_truncated?: boolean
           created_at?: string | null
+          diff_score?: number | null
+          error_category?: Database["public"]["Enums"]["check_error_category"] | null
+          error_class?: string | null
+          error_message?: string | null
+          file_sha256?: string | null
+          final_url?: string | null
+          heartbeat?: boolean
           id?: string
           monitored_url_id: string
+          not_modified?: boolean
+          page_count?: number | null
           pdf_file_path?: string | null
+          pdf_render_method?: string | null
+          previous_chain_hash?: string | null
+          previous_snapshot_id?: string | null
+          raw_body_path?: string | null
+          raw_content_type?: string | null
+          raw_sha256?: string | null
+          redirect_chain?: Json
+          removed_pages?: number[] | null
           resolved?: boolean | null
           resolved_at?: string | null
+          response_headers?: Json | null
+          response_time_ms?: number | null
+          screenshot_path?: string | null
+          source_snapshot_id?: string | null
           status_code?: number | null
+          tls_expires_at?: string | null
+          tls_issuer?: string | null
+          visual_change_percentage?: number | null
         }
         Update: {
           alert_triggered?: Database["public"]["Enums"]["alert_level"] | null
+          chain_hash?: string | null
           change_percentage?: number | null
-          content_hash?: string
+          changed_pages?: number[] | null
+          check_duration_ms?: number | null
+          check_failed?: boolean
+          content_hash?: string | null
           content_length?: number | null
           content_text?: string | null
+          content_truncated?: boolean
           created_at?: string | null
+          diff_score?: number | null
+          error_category?: Database["public"]["Enums"]["check_error_category"] | null
+          error_class?: string | null
+          error_message?: string | null
+          file_sha256?: string | null
+          final_url?: string | null
+          heartbeat?: boolean
           id?: string
           monitored_url_id?: string
+          not_modified?: boolean
+          page_count?: number | null
           pdf_file_path?: string | null
+          pdf_render_method?: string | null
+          previous_chain_hash?: string | null
+          previous_snapshot_id?: string | null
+          raw_body_path?: string | null
+          raw_content_type?: string | null
+          raw_sha256?: string | null
+          redirect_chain?: Json
+          removed_pages?: number[] | null
           resolved?: boolean | null
           resolved_at?: string | null
+          response_headers?: Json | null
+          response_time_ms?: number | null
+          screenshot_path?: string | null
+          source_snapshot_id?: string | null
           status_code?: number | null
+          tls_expires_at?: string | null
+          tls_issuer?: string | null
+          visual_change_percentage?: number | null
         }
         Relationships: [
           {
@@ -65,62 +272,600 @@ export type Database = {
             referencedRelation: "monitored_urls"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "content_snapshots_source_snapshot_id_fkey"
+            columns: ["source_snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "content_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      downtime_periods: {
+        Row: {
+          ended_at: string | null
+          error_category:
+            | Database["public"]["Enums"]["check_error_category"]
+            | null
+          id: string
+          monitored_url_id: string
+          reason: string | null
+          started_at: string
+          status_code: number | null
+        }
+        Insert: {
+          ended_at?: string | null
+          error_category?:
+            | Database["public"]["Enums"]["check_error_category"]
+            | null
+          id?: string
+          monitored_url_id: string
+          reason?: string | null
+          started_at?: string
+          status_code?: number | null
+        }
+        Update: {
+          ended_at?: string | null
+          error_category?:
+            | Database["public"]["Enums"]["check_error_category"]
+            | null
+          id?: string
+          monitored_url_id?: string
+          reason?: string | null
+          started_at?: string
+          status_code?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "downtime_periods_monitored_url_id_fkey"
+            columns: ["monitored_url_id"]
+            isOneToOne: false
+            referencedRelation: "monitored_urls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      keyword_events: {
+        Row: {
+          alert_sent: boolean
+          created_at: string
+          event: string
+          id: string
+          match_count: number
+          rule_id: string
+          snapshot_id: string | null
+          snippet: string
+        }
+        Insert: {
+          alert_sent?: boolean
+          created_at?: string
+          event: string
+          id?: string
+          match_count: number
+          rule_id: string
+          snapshot_id?: string | null
+          snippet: string
+        }
+        Update: {
+          alert_sent?: boolean
+          created_at?: string
+          event?: string
+          id?: string
+          match_count?: number
+          rule_id?: string
+          snapshot_id?: string | null
+          snippet?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "keyword_events_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "keyword_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "keyword_events_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "content_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      keyword_rules: {
+        Row: {
+          alert_on: string
+          case_sensitive: boolean
+          created_at: string | null
+          id: string
+          is_active: boolean
+          match_type: string
+          monitored_url_id: string
+          phrase: string
+          updated_at: string | null
+        }
+        Insert: {
+          alert_on?: string
+          case_sensitive?: boolean
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          match_type?: string
+          monitored_url_id: string
+          phrase: string
+          updated_at?: string | null
+        }
+        Update: {
+          alert_on?: string
+          case_sensitive?: boolean
+          created_at?: string | null
+          id?: string
+          is_active?: boolean
+          match_type?: string
+          monitored_url_id?: string
+          phrase?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "keyword_rules_monitored_url_id_fkey"
+            columns: ["monitored_url_id"]
+            isOneToOne: false
+            referencedRelation: "monitored_urls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      legal_holds: {
+        Row: {
+          id: string
+          lifted_at: string | null
+          lifted_by: string | null
+          monitored_url_id: string | null
+          placed_at: string
+          placed_by: string
+          reason: string | null
+          scope: string
+          snapshot_id: string | null
+        }
+        Insert: {
+          id?: string
+          lifted_at?: string | null
+          lifted_by?: string | null
+          monitored_url_id?: string | null
+          placed_at?: string
+          placed_by: string
+          reason?: string | null
+          scope: string
+          snapshot_id?: string | null
+        }
+        Update: {
+          id?: string
+          lifted_at?: string | null
+          lifted_by?: string | null
+          monitored_url_id?: string | null
+          placed_at?: string
+          placed_by?: string
+          reason?: string | null
+          scope?: string
+          snapshot_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "legal_holds_monitored_url_id_fkey"
+            columns: ["monitored_url_id"]
+            isOneToOne: false
+            referencedRelation: "monitored_urls"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "legal_holds_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "content_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      monitored_url_changes: {
+        Row: {
+          changed_at: string | null
+          changes: Json
+          id: string
+          monitored_url_id: string
+        }
+        Insert: {
+          changed_at?: string | null
+          changes: Json
+          id?: string
+          monitored_url_id: string
+        }
+        Update: {
+          changed_at?: string | null
+          changes?: Json
+          id?: string
+          monitored_url_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "monitored_url_changes_monitored_url_id_fkey"
+            columns: ["monitored_url_id"]
+            isOneToOne: false
+            referencedRelation: "monitored_urls"
+            referencedColumns: ["id"]
+          },
         ]
       }
       monitored_urls: {
         Row: {
           alert_webhook_payload: Json | null
           alert_webhook_url: string | null
+          availability_changed_at: string | null
+          availability_status: string | null
+          capture_screenshot: boolean
+          cert_expiry_alert_days: number
+          cert_expiry_alerted_for: string | null
           check_frequency_hours: number
+          consecutive_failures: number
           created_at: string | null
+          exclude_selectors: string[]
+          expected_status_codes: number[]
+          failure_red_threshold: number
+          failure_yellow_threshold: number
+          http_etag: string | null
+          http_last_modified: string | null
           id: string
+          include_selectors: string[]
           is_active: boolean | null
           last_checked_at: string | null
           name: string | null
+          next_check_at: string | null
+          paused_until: string | null
           red_threshold: number | null
+          schedule_cron: string | null
+          schedule_timezone: string
           updated_at: string | null
           url: string
+          use_javascript_rendering: boolean | null
+          visual_diff_tolerance: number
+          visual_red_threshold: number | null
+          visual_yellow_threshold: number | null
           yellow_threshold: number | null
         }
         Insert: {
           alert_webhook_payload?: Json | null
           alert_webhook_url?: string | null
+          availability_changed_at?: string | null
+          availability_status?: string | null
+          capture_screenshot?: boolean
+          cert_expiry_alert_days?: number
+          cert_expiry_alerted_for?: string | null
           check_frequency_hours?: number
+          consecutive_failures?: number
           created_at?: string | null
+          exclude_selectors?: string[]
+          expected_status_codes?: number[]
+          failure_red_threshold?: number
+          failure_yellow_threshold?: number
+          http_etag?: string | null
+          http_last_modified?: string | null
           id?: string
+          include_selectors?: string[]
           is_active?: boolean | null
           last_checked_at?: string | null
           name?: string | null
+          next_check_at?: string | null
+          paused_until?: string | null
           red_threshold?: number | null
+          schedule_cron?: string | null
+          schedule_timezone?: string
           updated_at?: string | null
           url: string
+          use_javascript_rendering?: boolean | null
+          visual_diff_tolerance?: number
+          visual_red_threshold?: number | null
+          visual_yellow_threshold?: number | null
           yellow_threshold?: number | null
         }
         Update: {
           alert_webhook_payload?: Json | null
           alert_webhook_url?: string | null
+          availability_changed_at?: string | null
+          availability_status?: string | null
+          capture_screenshot?: boolean
+          cert_expiry_alert_days?: number
+          cert_expiry_alerted_for?: string | null
           check_frequency_hours?: number
+          consecutive_failures?: number
           created_at?: string | null
+          exclude_selectors?: string[]
+          expected_status_codes?: number[]
+          failure_red_threshold?: number
+          failure_yellow_threshold?: number
+          http_etag?: string | null
+          http_last_modified?: string | null
           id?: string
+          include_selectors?: string[]
           is_active?: boolean | null
           last_checked_at?: string | null
           name?: string | null
+          next_check_at?: string | null
+          paused_until?: string | null
           red_threshold?: number | null
+          schedule_cron?: string | null
+          schedule_timezone?: string
           updated_at?: string | null
           url?: string
+          use_javascript_rendering?: boolean | null
+          visual_diff_tolerance?: number
+          visual_red_threshold?: number | null
+          visual_yellow_threshold?: number | null
           yellow_threshold?: number | null
         }
         Relationships: []
       }
+      pruned_snapshots: {
+        Row: {
+          chain_hash: string
+          monitored_url_id: string
+          pruned_at: string
+          snapshot_created_at: string
+          snapshot_id: string
+        }
+        Insert: {
+          chain_hash: string
+          monitored_url_id: string
+          pruned_at?: string
+          snapshot_created_at: string
+          snapshot_id: string
+        }
+        Update: {
+          chain_hash?: string
+          monitored_url_id?: string
+          pruned_at?: string
+          snapshot_created_at?: string
+          snapshot_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pruned_snapshots_monitored_url_id_fkey"
+            columns: ["monitored_url_id"]
+            isOneToOne: false
+            referencedRelation: "monitored_urls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      retention_policies: {
+        Row: {
+          created_at: string | null
+          dry_run: boolean
+          id: string
+          keep_alerts: boolean
+          keep_last_n: number | null
+          monitored_url_id: string | null
+          rollup_after_days: number | null
+          rollup_interval: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          dry_run?: boolean
+          id?: string
+          keep_alerts?: boolean
+          keep_last_n?: number | null
+          monitored_url_id?: string | null
+          rollup_after_days?: number | null
+          rollup_interval?: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          dry_run?: boolean
+          id?: string
+          keep_alerts?: boolean
+          keep_last_n?: number | null
+          monitored_url_id?: string | null
+          rollup_after_days?: number | null
+          rollup_interval?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "retention_policies_monitored_url_id_fkey"
+            columns: ["monitored_url_id"]
+            isOneToOne: false
+            referencedRelation: "monitored_urls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      retention_runs: {
+        Row: {
+          created_at: string | null
+          dry_run: boolean
+          files_deleted: number
+          id: string
+          report: Json
+          snapshots_deleted: number
+        }
+        Insert: {
+          created_at?: string | null
+          dry_run: boolean
+          files_deleted?: number
+          id?: string
+          report?: Json
+          snapshots_deleted?: number
+        }
+        Update: {
+          created_at?: string | null
+          dry_run?: boolean
+          files_deleted?: number
+          id?: string
+          report?: Json
+          snapshots_deleted?: number
+        }
+        Relationships: []
+      }
+      value_observations: {
+        Row: {
+          alert_message: string | null
+          error: string | null
+          id: string
+          matched_text: string | null
+          observed_at: string
+          snapshot_id: string | null
+          value: number | null
+          watcher_id: string
+        }
+        Insert: {
+          alert_message?: string | null
+          error?: string | null
+          id?: string
+          matched_text?: string | null
+          observed_at?: string
+          snapshot_id?: string | null
+          value?: number | null
+          watcher_id: string
+        }
+        Update: {
+          alert_message?: string | null
+          error?: string | null
+          id?: string
+          matched_text?: string | null
+          observed_at?: string
+          snapshot_id?: string | null
+          value?: number | null
+          watcher_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "value_observations_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "content_snapshots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "value_observations_watcher_id_fkey"
+            columns: ["watcher_id"]
+            isOneToOne: false
+            referencedRelation: "value_watchers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      value_watchers: {
+        Row: {
+          alert_rule: string | null
+          alert_value: number | null
+          created_at: string | null
+          extractor: string
+          id: string
+          is_active: boolean
+          monitored_url_id: string
+          name: string
+          pattern: string
+          updated_at: string | null
+        }
+        Insert: {
+          alert_rule?: string | null
+          alert_value?: number | null
+          created_at?: string | null
+          extractor: string
+          id?: string
+          is_active?: boolean
+          monitored_url_id: string
+          name: string
+          pattern: string
+          updated_at?: string | null
+        }
+        Update: {
+          alert_rule?: string | null
+          alert_value?: number | null
+          created_at?: string | null
+          extractor?: string
+          id?: string
+          is_active?: boolean
+          monitored_url_id?: string
+          name?: string
+          pattern?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "value_watchers_monitored_url_id_fkey"
+            columns: ["monitored_url_id"]
+            isOneToOne: false
+            referencedRelation: "monitored_urls"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      check_job_backoff: {
+        Args: { attempts: number }
+        Returns: unknown
+      }
+      claim_check_jobs: {
+        Args: { lease_seconds: number; max_jobs: number }
+        Returns: {
+          attempts: number
+          created_at: string | null
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          last_error: string | null
+          lease_expires_at: string | null
+          max_attempts: number
+          monitored_url_id: string
+          run_after: string
+          status: Database["public"]["Enums"]["check_job_status"]
+          updated_at: string | null
+        }[]
+      }
+      enqueue_due_check_jobs: {
+        Args: never
+        Returns: number
+      }
+      fail_check_job: {
+        Args: { error_message: string; job_id: string }
+        Returns: {
+          attempts: number
+          created_at: string | null
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          last_error: string | null
+          lease_expires_at: string | null
+          max_attempts: number
+          monitored_url_id: string
+          run_after: string
+          status: Database["public"]["Enums"]["check_job_status"]
+          updated_at: string | null
+        }
+      }
+      snapshot_on_legal_hold: {
+        Args: { target_snapshot_id: string; target_url_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
       alert_level: "green" | "yellow" | "red"
+      check_error_category:
+        | "dns"
+        | "tls"
+        | "timeout"
+        | "connection"
+        | "http"
+        | "extraction"
+        | "unknown"
+      check_job_status: "queued" | "running" | "succeeded" | "failed" | "dead"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -249,6 +994,16 @@ export const Constants = {
   public: {
     Enums: {
       alert_level: ["green", "yellow", "red"],
+      check_error_category: [
+        "dns",
+        "tls",
+        "timeout",
+        "connection",
+        "http",
+        "extraction",
+        "unknown",
+      ],
+      check_job_status: ["queued", "running", "succeeded", "failed", "dead"],
     },
   },
 } as const
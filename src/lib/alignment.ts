@@ -0,0 +1,45 @@
+import { diffArrays } from "diff";
+
+export interface AlignedPair<T> {
+  // 0-based positions in each sequence, null where the item only exists on one side
+  beforeIndex: number | null;
+  afterIndex: number | null;
+  before: T | null;
+  after: T | null;
+}
+
+// Line up two versions of a sequence by key. Items replaced in place are paired with their new
+// version, and inserted or deleted items do not shift every later item into a change.
+export const alignSequences = <T>(before: T[], after: T[], key: (item: T) => string): AlignedPair<T>[] => {
+  const pairs: AlignedPair<T>[] = [];
+  let beforeIndex = 0;
+  let afterIndex = 0;
+  // Items dropped at the current position, not yet matched with items added in their place
+  let pendingRemoved: AlignedPair<T>[] = [];
+
+  for (const change of diffArrays(before.map(key), after.map(key))) {
+    if (change.removed) {
+      for (let i = 0; i < change.value.length; i++) {
+        pendingRemoved.push({ beforeIndex, afterIndex: null, before: before[beforeIndex++], after: null });
+      }
+    } else if (change.added) {
+      for (let i = 0; i < change.value.length; i++) {
+        const replaced = pendingRemoved.shift();
+        pairs.push({
+          beforeIndex: replaced?.beforeIndex ?? null,
+          afterIndex,
+          before: replaced?.before ?? null,
+          after: after[afterIndex++],
+        });
+      }
+    } else {
+      pairs.push(...pendingRemoved);
+      pendingRemoved = [];
+      for (let i = 0; i < change.value.length; i++) {
+        pairs.push({ beforeIndex, afterIndex, before: before[beforeIndex++], after: after[afterIndex++] });
+      }
+    }
+  }
+
+  return [...pairs, ...pendingRemoved];
+};
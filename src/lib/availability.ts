@@ -0,0 +1,22 @@
+// Window used for the uptime figure on the dashboard
+export const UPTIME_WINDOW_DAYS = 30;
+
+export interface DowntimePeriod {
+  monitored_url_id: string;
+  started_at: string;
+  ended_at: string | null;
+}
+
+// Share of the window (0-1) not covered by downtime periods; open periods run until windowEnd
+export const computeUptime = (periods: DowntimePeriod[], windowStart: Date, windowEnd: Date): number => {
+  const windowMs = windowEnd.getTime() - windowStart.getTime();
+  if (windowMs <= 0) return 1;
+
+  const downMs = periods.reduce((total, period) => {
+    const start = Math.max(new Date(period.started_at).getTime(), windowStart.getTime());
+    const end = Math.min(period.ended_at ? new Date(period.ended_at).getTime() : windowEnd.getTime(), windowEnd.getTime());
+    return total + Math.max(0, end - start);
+  }, 0);
+
+  return Math.max(0, 1 - downMs / windowMs);
+};
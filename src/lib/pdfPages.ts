@@ -0,0 +1,36 @@
+import { alignSequences } from "./alignment";
+
+export interface PagePair {
+  // 1-based page numbers in each version, null where the page only exists on one side
+  oldPage: number | null;
+  newPage: number | null;
+  oldText: string;
+  newText: string;
+  changed: boolean;
+}
+
+// Line up the pages of two versions of a PDF the same way check-url does when it reports changed pages
+export const alignPages = (oldPages: string[], newPages: string[]): PagePair[] =>
+  alignSequences(oldPages, newPages, (page) => page).map((pair) => ({
+    oldPage: pair.beforeIndex !== null ? pair.beforeIndex + 1 : null,
+    newPage: pair.afterIndex !== null ? pair.afterIndex + 1 : null,
+    oldText: pair.before ?? "",
+    newText: pair.after ?? "",
+    changed: pair.before !== pair.after,
+  }));
+
+const formatPageList = (pages: number[]) =>
+  pages.length === 1
+    ? `page ${pages[0]}`
+    : `pages ${pages.slice(0, -1).join(", ")} and ${pages[pages.length - 1]}`;
+
+// Summary such as "Pages 14 and 87 changed; page 3 removed", or null when no page changed
+export const describePageChanges = (changedPages: number[] | null, removedPages: number[] | null) => {
+  const parts: string[] = [];
+  if (changedPages?.length) parts.push(`${formatPageList(changedPages)} changed`);
+  if (removedPages?.length) parts.push(`${formatPageList(removedPages)} removed`);
+  if (parts.length === 0) return null;
+
+  const summary = parts.join("; ");
+  return summary.charAt(0).toUpperCase() + summary.slice(1);
+};
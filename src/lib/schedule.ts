@@ -0,0 +1,45 @@
+import { parseExpression } from "cron-parser";
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+export interface ScheduleSettings {
+  check_frequency_hours: number;
+  schedule_cron: string | null;
+  schedule_timezone: string;
+}
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Returns a description of what is wrong with the cron schedule, or null when it is valid
+export const validateCronSchedule = (cron: string, timezone: string): string | null => {
+  if (!isValidTimezone(timezone)) return `Unknown time zone: ${timezone}`;
+  try {
+    parseExpression(cron, { tz: timezone });
+    return null;
+  } catch (error) {
+    return `Invalid cron expression: ${error instanceof Error ? error.message : cron}`;
+  }
+};
+
+// Next `count` run times of a cron schedule after `from`
+export const getNextCronRuns = (cron: string, timezone: string, count: number, from = new Date()): Date[] => {
+  const expression = parseExpression(cron, { currentDate: from, tz: timezone });
+  return Array.from({ length: count }, () => expression.next().toDate());
+};
+
+// Cron schedules run at their next occurrence; fixed frequencies run relative to the last check.
+// Keep in sync with computeNextCheckAt in supabase/functions/_shared/schedule.ts.
+export const computeNextCheckAt = (schedule: ScheduleSettings, lastCheckedAt: string | null, now = new Date()): Date => {
+  if (schedule.schedule_cron) {
+    return getNextCronRuns(schedule.schedule_cron, schedule.schedule_timezone || DEFAULT_TIMEZONE, 1, now)[0];
+  }
+  if (!lastCheckedAt) return now;
+  return new Date(new Date(lastCheckedAt).getTime() + schedule.check_frequency_hours * 60 * 60 * 1000);
+};
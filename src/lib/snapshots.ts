@@ -0,0 +1,122 @@
+import { supabase } from "@/integrations/supabase/client";
+import { parseSnapshotTables, SnapshotTable } from "@/lib/tableDiff";
+
+// Length of the content_text preview kept on every snapshot row
+export const SNAPSHOT_PREVIEW_LENGTH = 10000;
+
+interface SnapshotTextSource {
+  id: string;
+  content_text: string | null;
+  source_snapshot_id?: string | null;
+}
+
+// Load the full clean text of a snapshot, falling back to the preview for legacy snapshots.
+// Heartbeats store no text of their own, so their source snapshot's text is returned.
+export const loadSnapshotText = async (snapshot: SnapshotTextSource): Promise<string> => {
+  if (snapshot.source_snapshot_id) {
+    const { data: source, error } = await supabase
+      .from("content_snapshots")
+      .select("id, content_text")
+      .eq("id", snapshot.source_snapshot_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (source) return loadSnapshotText(source);
+  }
+
+  const { data, error } = await supabase
+    .from("content_snapshot_texts")
+    .select("full_text")
+    .eq("snapshot_id", snapshot.id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data?.full_text ?? snapshot.content_text ?? "";
+};
+
+interface SnapshotRawBodySource {
+  raw_body_path?: string | null;
+  raw_content_type?: string | null;
+  raw_sha256?: string | null;
+  source_snapshot_id?: string | null;
+}
+
+export interface SnapshotRawBody {
+  path: string;
+  contentType: string | null;
+  sha256: string | null;
+  // Stored size in bytes, null when storage does not report it
+  size: number | null;
+  // The decoded body for text types; binary bodies are only offered as a download
+  text: string | null;
+}
+
+// Bodies of these types are decoded and shown; anything else would only be shown as garbage
+export const isTextContentType = (contentType: string | null) =>
+  !!contentType && /^text\/|[/+](json|xml)\b|javascript/i.test(contentType);
+
+// Load the response body exactly as it was received, or null for snapshots captured before
+// raw bodies were stored. Heartbeats return the body of their source snapshot. Only text
+// bodies are downloaded; for binary ones just the size is looked up.
+export const loadSnapshotRawBody = async (snapshot: SnapshotRawBodySource): Promise<SnapshotRawBody | null> => {
+  if (!snapshot.raw_body_path && snapshot.source_snapshot_id) {
+    const { data: source, error } = await supabase
+      .from("content_snapshots")
+      .select("raw_body_path, raw_content_type, raw_sha256, source_snapshot_id")
+      .eq("id", snapshot.source_snapshot_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return source ? loadSnapshotRawBody(source) : null;
+  }
+
+  if (!snapshot.raw_body_path) return null;
+
+  const rawBody = {
+    path: snapshot.raw_body_path,
+    contentType: snapshot.raw_content_type ?? null,
+    sha256: snapshot.raw_sha256 ?? null,
+  };
+
+  if (isTextContentType(rawBody.contentType)) {
+    const { data, error } = await supabase.storage.from("content-pdfs").download(snapshot.raw_body_path);
+    if (error) throw error;
+
+    return { ...rawBody, size: data.size, text: await data.text() };
+  }
+
+  const { publicUrl } = supabase.storage.from("content-pdfs").getPublicUrl(snapshot.raw_body_path).data;
+  const response = await fetch(publicUrl, { method: "HEAD" });
+  const length = response.ok ? response.headers.get("content-length") : null;
+
+  return { ...rawBody, size: length === null ? null : Number(length), text: null };
+};
+
+// Load the clean text of each page of a PDF snapshot, or null when the snapshot was not a PDF
+// or was captured before pages were stored. Heartbeats return the pages of their source snapshot.
+export const loadSnapshotPages = async (snapshot: { id: string; source_snapshot_id?: string | null }): Promise<string[] | null> => {
+  const { data, error } = await supabase
+    .from("content_snapshot_texts")
+    .select("page_texts")
+    .eq("snapshot_id", snapshot.source_snapshot_id ?? snapshot.id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data?.page_texts ?? null;
+};
+
+// Load the tables extracted from an HTML snapshot, or null when it had none or was captured before
+// tables were stored. Heartbeats return the tables of their source snapshot.
+export const loadSnapshotTables = async (snapshot: { id: string; source_snapshot_id?: string | null }): Promise<SnapshotTable[] | null> => {
+  const { data, error } = await supabase
+    .from("content_snapshot_texts")
+    .select("tables")
+    .eq("snapshot_id", snapshot.source_snapshot_id ?? snapshot.id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return parseSnapshotTables(data?.tables);
+};
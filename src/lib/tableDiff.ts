@@ -0,0 +1,90 @@
+import { alignSequences } from "./alignment";
+
+// A table as extracted by check-url (content_snapshot_texts.tables)
+export interface SnapshotTable {
+  caption: string | null;
+  headers: string[];
+  rows: string[][];
+}
+
+export type ChangeStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface CellChange {
+  // Null where the cell does not exist in that version
+  before: string | null;
+  after: string | null;
+  changed: boolean;
+}
+
+export interface RowDiff {
+  status: ChangeStatus;
+  cells: CellChange[];
+}
+
+export interface TableDiff {
+  caption: string | null;
+  status: ChangeStatus;
+  headers: CellChange[];
+  rows: RowDiff[];
+  changedCells: number;
+}
+
+// Accept whatever was stored, so a malformed value shows as no tables instead of breaking the view
+export const parseSnapshotTables = (value: unknown): SnapshotTable[] | null =>
+  Array.isArray(value)
+    ? value.filter((table): table is SnapshotTable => Array.isArray(table?.headers) && Array.isArray(table?.rows))
+    : null;
+
+const range = (length: number) => Array.from({ length }, (_, index) => index);
+
+const width = (table: SnapshotTable | null) =>
+  table ? Math.max(table.headers.length, ...table.rows.map((row) => row.length)) : 0;
+
+const compareCells = (columns: { beforeIndex: number | null; afterIndex: number | null }[], before: string[] | null, after: string[] | null): CellChange[] =>
+  columns.map(({ beforeIndex, afterIndex }) => {
+    const beforeValue = before && beforeIndex !== null ? before[beforeIndex] ?? null : null;
+    const afterValue = after && afterIndex !== null ? after[afterIndex] ?? null : null;
+    return { before: beforeValue, after: afterValue, changed: (beforeValue ?? "") !== (afterValue ?? "") };
+  });
+
+const diffTable = (before: SnapshotTable | null, after: SnapshotTable | null): TableDiff => {
+  const beforeRows = before?.rows ?? [];
+  const afterRows = after?.rows ?? [];
+  const beforeHeaders = before?.headers ?? [];
+  const afterHeaders = after?.headers ?? [];
+
+  // Match columns by their header so an inserted column does not shift every cell; without headers, by position
+  const beforeWidth = width(before);
+  const afterWidth = width(after);
+  const columns = beforeHeaders.length > 0 && afterHeaders.length > 0
+    ? alignSequences(beforeHeaders, afterHeaders, (header) => header)
+    : range(Math.max(beforeWidth, afterWidth)).map((index) => ({
+        beforeIndex: index < beforeWidth ? index : null,
+        afterIndex: index < afterWidth ? index : null,
+      }));
+
+  // Rows are matched by their first cell, usually the label of the row, so a changed value is shown in place
+  const rows = alignSequences(beforeRows, afterRows, (row) => row[0] ?? "").map((pair): RowDiff => {
+    const cells = compareCells(columns, pair.before, pair.after);
+    const status: ChangeStatus = !pair.before ? "added" : !pair.after ? "removed" : cells.some((cell) => cell.changed) ? "changed" : "unchanged";
+    return { status, cells };
+  });
+  const headers = beforeHeaders.length > 0 || afterHeaders.length > 0
+    ? compareCells(columns, before ? beforeHeaders : null, after ? afterHeaders : null)
+    : [];
+
+  const changedCells = [...headers, ...rows.flatMap((row) => row.cells)].filter((cell) => cell.changed).length;
+  return {
+    caption: after?.caption ?? before?.caption ?? null,
+    status: !before ? "added" : !after ? "removed" : changedCells > 0 ? "changed" : "unchanged",
+    headers,
+    rows,
+    changedCells,
+  };
+};
+
+// Compare the tables of two snapshots cell by cell. Tables are matched by caption and header row,
+// falling back to their order on the page.
+export const diffTables = (before: SnapshotTable[], after: SnapshotTable[]): TableDiff[] =>
+  alignSequences(before, after, (table) => [table.caption ?? "", ...table.headers].join("\u0000"))
+    .map((pair) => diffTable(pair.before, pair.after));
@@ -0,0 +1,27 @@
+import pixelmatch from "pixelmatch";
+
+// Only the top of very tall full-page screenshots is compared, matching check-url
+export const MAX_VISUAL_DIFF_HEIGHT = 6000;
+
+export interface VisualDiffResult {
+  // The newer image faded, with changed pixels painted red and anti-aliasing differences yellow
+  output: ImageData;
+  changedPixels: number;
+  // Share of pixels (0-1) that changed
+  ratio: number;
+}
+
+// Compare two images of the same size pixel by pixel. Tolerance (0-1) is the colour difference
+// below which a pixel does not count as changed. Uses the same pixelmatch version and options as
+// check-url, so the ratio matches the stored visual_change_ratio for the same screenshots.
+export const diffImages = (before: ImageData, after: ImageData, tolerance: number): VisualDiffResult => {
+  const { width, height } = after;
+  const output = new ImageData(width, height);
+  const changedPixels = pixelmatch(before.data, after.data, output.data, width, height, {
+    threshold: tolerance,
+    // Fade unchanged pixels so the changes stand out
+    alpha: 0.25,
+  });
+
+  return { output, changedPixels, ratio: width * height > 0 ? changedPixels / (width * height) : 0 };
+};
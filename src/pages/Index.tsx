@@ -1,11 +1,14 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Plus } from "lucide-react";
+import { Plus, Archive } from "lucide-react";
 import { UrlList } from "@/components/UrlList";
 import { AddUrlDialog } from "@/components/AddUrlDialog";
+import { DeadJobsPanel } from "@/components/DeadJobsPanel";
+import { RetentionDialog } from "@/components/RetentionDialog";
 
 const Index = () => {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [isRetentionDialogOpen, setIsRetentionDialogOpen] = useState(false);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
 
   return (
@@ -20,7 +23,7 @@ const Index = () => {
           </p>
         </header>
 
-        <div className="mb-6">
+        <div className="mb-6 flex gap-2">
           <Button 
             onClick={() => setIsAddDialogOpen(true)}
             size="lg"
@@ -29,14 +32,30 @@ const Index = () => {
             <Plus className="h-5 w-5" />
             Add URL to Monitor
           </Button>
+          <Button
+            onClick={() => setIsRetentionDialogOpen(true)}
+            size="lg"
+            variant="outline"
+            className="gap-2"
+          >
+            <Archive className="h-5 w-5" />
+            Retention
+          </Button>
         </div>
 
+        <DeadJobsPanel />
+
         <UrlList key={refreshTrigger} />
 
         <AddUrlDialog 
           open={isAddDialogOpen}
           onOpenChange={setIsAddDialogOpen}
-          onUrlAdded={() => setRefreshTrigger(prev => prev + 1)}
+          onUrlSaved={() => setRefreshTrigger(prev => prev + 1)}
+        />
+
+        <RetentionDialog
+          open={isRetentionDialogOpen}
+          onOpenChange={setIsRetentionDialogOpen}
         />
       </div>
     </div>
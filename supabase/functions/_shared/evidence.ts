@@ -0,0 +1,46 @@
+// Tamper-evident chain over a URL's snapshots. Each snapshot's chain hash covers its own evidence
+// fields and the chain hash of the snapshot before it, so editing, replacing or removing a snapshot
+// breaks every later link.
+
+export interface EvidenceRecord {
+  id: string;
+  monitored_url_id: string;
+  created_at: string;
+  check_failed: boolean;
+  status_code: number | null;
+  final_url: string | null;
+  raw_sha256: string | null;
+  content_hash: string | null;
+  pdf_file_path: string | null;
+  file_sha256: string | null;
+  previous_snapshot_id: string | null;
+  previous_chain_hash: string | null;
+}
+
+export async function sha256Hex(data: Uint8Array | string): Promise<string> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const hashBuffer = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(hashBuffer)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Fixed field order, so the same record always serializes to the same bytes
+export function canonicalEvidence(record: EvidenceRecord): string {
+  return JSON.stringify([
+    record.id,
+    record.monitored_url_id,
+    new Date(record.created_at).toISOString(),
+    record.check_failed,
+    record.status_code,
+    record.final_url,
+    record.raw_sha256,
+    record.content_hash,
+    record.pdf_file_path,
+    record.file_sha256,
+    record.previous_snapshot_id,
+    record.previous_chain_hash,
+  ]);
+}
+
+export function computeChainHash(record: EvidenceRecord): Promise<string> {
+  return sha256Hex(canonicalEvidence(record));
+}
@@ -0,0 +1,45 @@
+// Longest regular expression a value watcher or keyword rule may use
+export const MAX_PATTERN_LENGTH = 200;
+
+// Why a user-supplied regular expression must not be run, or null when it is safe.
+// Patterns run over whole pages on every check, so besides invalid syntax this refuses very long
+// patterns and nested quantifiers such as (a+)+ or (\w*)*, which backtrack catastrophically.
+// Keep in sync with patternProblem in src/lib/patterns.ts.
+export function patternProblem(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Patterns are limited to ${MAX_PATTERN_LENGTH} characters`;
+  }
+  try {
+    new RegExp(pattern);
+  } catch {
+    return 'The regular expression is not valid';
+  }
+
+  // For each open group, whether it contains a quantifier
+  const groups: boolean[] = [];
+  let quantified = false;
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === '\\') {
+      index++;
+    } else if (char === '[') {
+      // Skip the character class; quantifier characters inside it are literals
+      while (index < pattern.length && pattern[index] !== ']') index += pattern[index] === '\\' ? 2 : 1;
+    } else if (char === '(') {
+      groups.push(quantified);
+      quantified = false;
+    } else if (char === ')') {
+      const inner = quantified;
+      quantified = groups.pop() ?? false;
+      const next = pattern[index + 1];
+      const repeated = next === '+' || next === '*' || (next === '{' && /^\{\d*,\d*\}|^\{\d+\}/.test(pattern.slice(index + 1)));
+      if (inner && repeated) {
+        return 'Nested quantifiers like (a+)+ can make matching take forever';
+      }
+      quantified ||= inner;
+    } else if (char === '+' || char === '*' || char === '{') {
+      quantified = true;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,21 @@
+// Tests for the pattern guard. Run with:
+//   deno test supabase/functions/_shared/patterns_test.ts
+import { assertEquals, assertStringIncludes } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { MAX_PATTERN_LENGTH, patternProblem } from "./patterns.ts";
+
+Deno.test('accepts ordinary patterns', () => {
+  for (const pattern of ['APY of ([\\d.]+)%', '\\$([\\d,]+\\.\\d{2})', 'discontinu(ed|ing)', '(\\d+)?%', '[(+*)]+', '(?:ab)+']) {
+    assertEquals(patternProblem(pattern), null, pattern);
+  }
+});
+
+Deno.test('refuses nested quantifiers', () => {
+  for (const pattern of ['(a+)+', '(\\w*)*', '(.*a){2,}', '((ab)+c)*', '(?:x+y?)+$']) {
+    assertStringIncludes(patternProblem(pattern) ?? '', 'Nested quantifiers', pattern);
+  }
+});
+
+Deno.test('refuses invalid and overlong patterns', () => {
+  assertStringIncludes(patternProblem('(unclosed') ?? '', 'not valid');
+  assertStringIncludes(patternProblem('a'.repeat(MAX_PATTERN_LENGTH + 1)) ?? '', `${MAX_PATTERN_LENGTH} characters`);
+});
@@ -0,0 +1,26 @@
+import cronParser from "https://esm.sh/cron-parser@4.9.0";
+
+interface ScheduleSettings {
+  check_frequency_hours: number;
+  schedule_cron: string | null;
+  schedule_timezone: string | null;
+}
+
+// Cron schedules run at their next occurrence; fixed frequencies run relative to the last check.
+// Keep in sync with computeNextCheckAt in src/lib/schedule.ts.
+export function computeNextCheckAt(schedule: ScheduleSettings, lastCheckedAt: Date | null, now = new Date()): Date {
+  if (schedule.schedule_cron) {
+    try {
+      return cronParser
+        .parseExpression(schedule.schedule_cron, { currentDate: now, tz: schedule.schedule_timezone || 'UTC' })
+        .next()
+        .toDate();
+    } catch (error) {
+      // The UI validates expressions, but never let a bad one stop the URL from being checked
+      console.error(`Invalid cron schedule "${schedule.schedule_cron}", falling back to check frequency:`, error);
+    }
+  }
+
+  if (!lastCheckedAt) return now;
+  return new Date(lastCheckedAt.getTime() + schedule.check_frequency_hours * 60 * 60 * 1000);
+}
@@ -0,0 +1,76 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import type { CheckErrorCategory } from "./errors.ts";
+
+// Failure categories that mean the site itself is unreachable or unhealthy.
+// Extraction errors and unknown failures are our problem, not downtime.
+const DOWNTIME_CATEGORIES: CheckErrorCategory[] = ['dns', 'tls', 'timeout', 'connection', 'http'];
+
+export const isDowntimeCategory = (category: CheckErrorCategory) => DOWNTIME_CATEGORIES.includes(category);
+
+export interface AvailabilityResult {
+  isUp: boolean;
+  statusCode: number | null;
+  errorCategory: CheckErrorCategory | null;
+  reason: string | null;
+}
+
+export interface AvailabilityTransition {
+  transition: 'up' | 'down' | null;
+  downtimeSeconds: number | null;
+}
+
+// Record the URL's availability, opening or closing a downtime period when it changes
+export async function recordAvailability(
+  supabaseClient: SupabaseClient,
+  monitoredUrl: { id: string; availability_status: string | null },
+  result: AvailabilityResult,
+): Promise<AvailabilityTransition> {
+  const now = new Date();
+  const newStatus = result.isUp ? 'up' : 'down';
+  const previousStatus = monitoredUrl.availability_status;
+
+  if (previousStatus === newStatus) {
+    return { transition: null, downtimeSeconds: null };
+  }
+
+  await supabaseClient
+    .from('monitored_urls')
+    .update({ availability_status: newStatus, availability_changed_at: now.toISOString() })
+    .eq('id', monitoredUrl.id);
+
+  if (!result.isUp) {
+    const { error } = await supabaseClient
+      .from('downtime_periods')
+      .insert({
+        monitored_url_id: monitoredUrl.id,
+        started_at: now.toISOString(),
+        status_code: result.statusCode,
+        error_category: result.errorCategory,
+        reason: result.reason,
+      });
+
+    if (error) console.error('Error opening downtime period:', error);
+    return { transition: 'down', downtimeSeconds: null };
+  }
+
+  // The first successful check of a new URL is not a recovery
+  if (previousStatus === null) {
+    return { transition: null, downtimeSeconds: null };
+  }
+
+  const { data: closedPeriod, error } = await supabaseClient
+    .from('downtime_periods')
+    .update({ ended_at: now.toISOString() })
+    .eq('monitored_url_id', monitoredUrl.id)
+    .is('ended_at', null)
+    .select('started_at')
+    .maybeSingle();
+
+  if (error) console.error('Error closing downtime period:', error);
+
+  const downtimeSeconds = closedPeriod
+    ? Math.round((now.getTime() - new Date(closedPeriod.started_at).getTime()) / 1000)
+    : null;
+
+  return { transition: 'up', downtimeSeconds };
+}
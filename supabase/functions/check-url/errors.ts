@@ -0,0 +1,34 @@
+// Categories stored on failed snapshots (check_error_category enum)
+export type CheckErrorCategory = 'dns' | 'tls' | 'timeout' | 'connection' | 'http' | 'extraction' | 'unknown';
+
+// The server answered, but with an error status
+export class HttpStatusError extends Error {
+  constructor(public readonly status: number, statusText = '') {
+    super(`HTTP ${status}${statusText ? ` ${statusText}` : ''}`);
+    this.name = 'HttpStatusError';
+  }
+}
+
+// Fetching succeeded but the content could not be turned into text
+export class ExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExtractionError';
+  }
+}
+
+// Map an error thrown while checking a URL to a coarse category, based on
+// Deno's fetch error messages ("dns error", "invalid peer certificate", ...)
+export function categorizeCheckError(error: unknown): CheckErrorCategory {
+  if (error instanceof HttpStatusError) return 'http';
+  if (error instanceof ExtractionError) return 'extraction';
+
+  const name = error instanceof Error ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (name === 'TimeoutError' || name === 'AbortError' || /timed? ?out|timeout/i.test(message)) return 'timeout';
+  if (/dns error|failed to lookup|name or service not known|nodename|getaddrinfo|ENOTFOUND/i.test(message)) return 'dns';
+  if (/certificate|tls|ssl|handshake/i.test(message)) return 'tls';
+  if (/connection|ECONNREFUSED|ECONNRESET|error sending request|network/i.test(message)) return 'connection';
+  return 'unknown';
+}
@@ -1,44 +1,45 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
-import { getDocument } from "https://esm.sh/pdfjs-serverless@0.3.2";
 import { crypto } from "https://deno.land/std@0.177.0/crypto/mod.ts";
-import { jsPDF } from "https://esm.sh/jspdf@2.5.2";
 import puppeteer from "https://deno.land/x/puppeteer@16.2.0/mod.ts";
+import { DOMParser, Element } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+import { diffArrays } from "https://esm.sh/diff@8.0.2";
+import { computeNextCheckAt } from "../_shared/schedule.ts";
+import { categorizeCheckError, HttpStatusError } from "./errors.ts";
+import { AvailabilityResult, isDowntimeCategory, recordAvailability } from "./availability.ts";
+import { inspectCertificate } from "./tls.ts";
+import { computeVisualChange } from "./visual.ts";
+import { PdfRenderMethod, renderStructuredPdf } from "./render.ts";
+import { comparePages, describePageChanges, extractPdfContent, isPdf } from "./pdf.ts";
+import { extractTables, SnapshotTable } from "./tables.ts";
+import { elementText } from "./text.ts";
+import { assertPublicUrl, readLimitedBody } from "./network.ts";
+import { evaluateValueRule, ExtractedValue, extractWatchedValues, ValueWatcher } from "./values.ts";
+import { evaluateKeywordRule, KeywordRule } from "./keywords.ts";
+import { computeChainHash, EvidenceRecord, sha256Hex } from "../_shared/evidence.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// PDF text extraction function
-async function extractTextFromPDF(arrayBuffer: ArrayBuffer): Promise<string> {
-  try {
-    const pdf = await getDocument(new Uint8Array(arrayBuffer)).promise;
-    let fullText = '';
-
-    // Extract text from each page
-    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
-      const page = await pdf.getPage(pageNum);
-      const textContent = await page.getTextContent();
-
-      // Combine all text items from the page
-      const pageText = textContent.items
-        .map((item: any) => item.str)
-        .join(' ');
-
-      fullText += pageText + '\n';
-    }
-
-    return fullText;
-  } catch (error) {
-    console.error('Error extracting text from PDF:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`Failed to extract text from PDF: ${errorMessage}`);
-  }
+interface RedirectHop {
+  url: string;
+  status: number;
 }
 
 // Fetch content with JavaScript rendering using Puppeteer
-async function fetchWithPuppeteer(url: string): Promise<{ content: string; contentType: string }> {
+async function fetchWithPuppeteer(url: string, captureScreenshot = false): Promise<{
+  content: string;
+  body: Uint8Array;
+  headers: Record<string, string>;
+  screenshot: Uint8Array | null;
+  renderedPdf: Uint8Array | null;
+  contentType: string;
+  statusCode: number;
+  finalUrl: string;
+  redirectChain: RedirectHop[];
+}> {
   const browserlessApiKey = Deno.env.get('BROWSERLESS_API_KEY');
 
   if (!browserlessApiKey) {
@@ -66,24 +67,62 @@ async function fetchWithPuppeteer(url: string): Promise<{ content: string; conte
     }
 
     const contentType = response.headers()['content-type'] || 'text/html';
+    const redirectChain = response.request().redirectChain().map((request) => ({
+      url: request.url(),
+      status: request.response()?.status() ?? 0,
+    }));
 
-    // If it's a PDF, get the buffer directly
+    // If it's a PDF, keep the bytes as they are; decoding them as text would corrupt them
     if (contentType.includes('application/pdf')) {
       const buffer = await response.buffer();
       await browser.close();
       return {
-        content: new TextDecoder().decode(buffer),
-        contentType: 'application/pdf'
+        content: '',
+        body: new Uint8Array(buffer),
+        headers: response.headers(),
+        screenshot: null,
+        renderedPdf: null,
+        contentType: 'application/pdf',
+        statusCode: response.status(),
+        finalUrl: response.url(),
+        redirectChain,
       };
     }
 
     // For HTML, get the fully rendered content
     const content = await page.content();
+
+    // A missing screenshot should not cost the whole check
+    let screenshot: Uint8Array | null = null;
+    if (captureScreenshot) {
+      try {
+        screenshot = new Uint8Array(await page.screenshot({ fullPage: true, type: 'png' }) as Uint8Array);
+      } catch (screenshotError) {
+        console.error('Failed to capture screenshot:', screenshotError);
+      }
+    }
+
+    // Print the page as it looks on screen, for the archival copy
+    let renderedPdf: Uint8Array | null = null;
+    try {
+      await page.emulateMediaType('screen');
+      renderedPdf = new Uint8Array(await page.pdf({ format: 'a4', printBackground: true }) as Uint8Array);
+    } catch (pdfError) {
+      console.error('Failed to print page to PDF:', pdfError);
+    }
     await browser.close();
 
     return {
       content,
-      contentType: 'text/html'
+      // The rendered DOM is what was captured, so it stands in for the response body
+      body: new TextEncoder().encode(content),
+      headers: response.headers(),
+      screenshot,
+      renderedPdf,
+      contentType: 'text/html',
+      statusCode: response.status(),
+      finalUrl: response.url(),
+      redirectChain,
     };
   } catch (error) {
     await browser.close();
@@ -91,6 +130,303 @@ async function fetchWithPuppeteer(url: string): Promise<{ content: string; conte
   }
 }
 
+interface ContentSelectors {
+  include: string[];
+  exclude: string[];
+}
+
+// Strip markup from the whole page with regexes (used when no selectors are configured)
+function stripHtml(html: string): string {
+  return html
+    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '') // Remove scripts
+    .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '') // Remove styles
+    .replace(/<[^>]+>/g, ' ') // Remove all HTML tags
+    .replace(/\s+/g, ' ') // Normalize whitespace
+    .trim();
+}
+
+// Parse the page and return the elements selected by the include/exclude selectors
+// (the whole body when nothing is included), with non-content and excluded elements removed
+function selectContent(html: string, selectors: ContentSelectors): Element[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  if (!doc || !doc.body) {
+    throw new Error('Failed to parse HTML document');
+  }
+
+  const querySelectorAll = (selector: string): Element[] => {
+    try {
+      return Array.from(doc.querySelectorAll(selector)) as Element[];
+    } catch {
+      throw new Error(`Invalid CSS selector: ${selector}`);
+    }
+  };
+
+  // Remove non-content elements and everything matched by an exclude selector
+  for (const selector of ['script', 'style', 'noscript', ...selectors.exclude]) {
+    querySelectorAll(selector).forEach((element) => element.remove());
+  }
+
+  if (selectors.include.length === 0) {
+    return [doc.body];
+  }
+
+  // Keep document order and skip elements nested inside another match
+  const matched = new Set<Element>();
+  for (const selector of selectors.include) {
+    querySelectorAll(selector).forEach((element) => matched.add(element));
+  }
+  return Array.from(doc.body.querySelectorAll('*') as Iterable<Element>).filter((element) => {
+    if (!matched.has(element)) return false;
+    for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+      if (matched.has(parent)) return false;
+    }
+    return true;
+  });
+}
+
+// Extract text from the parts of the page selected by the include/exclude selectors
+function extractScopedHtmlText(html: string, selectors: ContentSelectors): string {
+  return selectContent(html, selectors)
+    .map(elementText)
+    .join(' ')
+    .trim();
+}
+
+// Tables in the monitored part of the page, or null when it has none
+function extractHtmlTables(html: string, selectors: ContentSelectors): SnapshotTable[] | null {
+  // Most pages have no tables, so skip parsing the document a second time for them
+  if (!/<table[\s>]/i.test(html)) return null;
+
+  try {
+    const tables = extractTables(selectContent(html, selectors));
+    return tables.length > 0 ? tables : null;
+  } catch (error) {
+    // Tables are a convenience for reviewing changes, so the check goes on without them
+    console.error('Error extracting tables:', error);
+    return null;
+  }
+}
+
+// Regular fetches that take longer than this are recorded as timeouts
+const FETCH_TIMEOUT_MS = 30000;
+
+// Beyond this many edits the word diff gets too slow, so fall back to comparing word counts
+const MAX_DIFF_EDIT_LENGTH = 20000;
+
+// Share of words added or removed between two clean texts (0 = identical, 1 = completely rewritten)
+function computeDiffScore(oldText: string, newText: string): number {
+  const oldWords = oldText.split(/\s+/).filter(Boolean);
+  const newWords = newText.split(/\s+/).filter(Boolean);
+  const totalWords = oldWords.length + newWords.length;
+  if (totalWords === 0) return 0;
+
+  let changedWords = 0;
+  const changes = diffArrays(oldWords, newWords, { maxEditLength: MAX_DIFF_EDIT_LENGTH });
+
+  if (changes) {
+    for (const change of changes) {
+      if (change.added || change.removed) {
+        changedWords += change.count ?? change.value.length;
+      }
+    }
+  } else {
+    // Order-insensitive approximation: words whose occurrence counts differ
+    const counts = new Map<string, number>();
+    oldWords.forEach((word) => counts.set(word, (counts.get(word) || 0) + 1));
+    newWords.forEach((word) => counts.set(word, (counts.get(word) || 0) - 1));
+    counts.forEach((count) => { changedWords += Math.abs(count); });
+  }
+
+  return changedWords / totalWords;
+}
+
+const MAX_REDIRECTS = 10;
+
+// File extension for a stored response body, so it opens with the right program when downloaded
+function rawBodyExtension(contentType: string): string {
+  if (contentType.includes('html')) return 'html';
+  if (contentType.includes('pdf')) return 'pdf';
+  if (contentType.includes('json')) return 'json';
+  if (contentType.includes('xml')) return 'xml';
+  if (contentType.startsWith('text/')) return 'txt';
+  return 'bin';
+}
+
+interface FetchResult {
+  rawContent: string;
+  // The body exactly as received, for the evidence hash
+  rawBytes: Uint8Array;
+  responseHeaders: Record<string, string>;
+  // Full-page PNG of the rendered page, when requested and rendered with Puppeteer
+  screenshot: Uint8Array | null;
+  // The browser's PDF print of the rendered page
+  renderedPdf: Uint8Array | null;
+  contentType: string;
+  statusCode: number;
+  finalUrl: string;
+  // Every hop before the final response, in order
+  redirectChain: RedirectHop[];
+  // From the first request until the body was fully read
+  responseTimeMs: number;
+  // Cache validators of a regular fetch, for the next conditional request
+  validators: HttpValidators;
+}
+
+interface HttpValidators {
+  etag: string | null;
+  lastModified: string | null;
+}
+
+// Fetch the page, rendering it with Puppeteer when requested and available
+// Validators turn the regular fetch into a conditional GET that may come back as 304 with no body.
+async function fetchContent(
+  url: string,
+  shouldUseJavaScript: boolean,
+  validators: HttpValidators | null = null,
+  captureScreenshot = false,
+): Promise<FetchResult> {
+  // URLs come from callers, so never let them reach into our own network
+  await assertPublicUrl(url);
+
+  const browserlessAvailable = !!Deno.env.get('BROWSERLESS_API_KEY');
+  const usePuppeteer = shouldUseJavaScript && browserlessAvailable;
+
+  if (shouldUseJavaScript && !browserlessAvailable) {
+    console.warn('JavaScript rendering requested but BROWSERLESS_API_KEY not set. Falling back to regular fetch.');
+  }
+
+  if (usePuppeteer) {
+    try {
+      console.log('Using Puppeteer for JavaScript-rendered content...');
+      const puppeteerStartedAt = Date.now();
+      const puppeteerResult = await fetchWithPuppeteer(url, captureScreenshot);
+      return {
+        rawContent: puppeteerResult.content,
+        rawBytes: puppeteerResult.body,
+        responseHeaders: puppeteerResult.headers,
+        screenshot: puppeteerResult.screenshot,
+        renderedPdf: puppeteerResult.renderedPdf,
+        contentType: puppeteerResult.contentType,
+        statusCode: puppeteerResult.statusCode,
+        finalUrl: puppeteerResult.finalUrl,
+        redirectChain: puppeteerResult.redirectChain,
+        responseTimeMs: Date.now() - puppeteerStartedAt,
+        // The rendered page can change while the document itself does not, so never revalidate it
+        validators: { etag: null, lastModified: null },
+      };
+    } catch (puppeteerError) {
+      console.error('Puppeteer failed, falling back to regular fetch:', puppeteerError);
+    }
+  } else {
+    const fetchMethod = shouldUseJavaScript ? 'regular fetch (Browserless unavailable)' : 'regular fetch';
+    console.log(`Using ${fetchMethod}...`);
+  }
+
+  // Follow redirects by hand so every hop can be recorded
+  const startedAt = Date.now();
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  const redirectChain: RedirectHop[] = [];
+  let currentUrl = url;
+
+  const headers: Record<string, string> = {};
+  if (validators?.etag) headers['If-None-Match'] = validators.etag;
+  if (validators?.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+  while (true) {
+    if (currentUrl !== url) await assertPublicUrl(currentUrl);
+    const response = await fetch(currentUrl, { redirect: 'manual', signal, headers });
+    const location = response.headers.get('location');
+
+    if (response.status >= 300 && response.status < 400 && response.status !== 304 && location) {
+      if (redirectChain.length >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+      }
+      redirectChain.push({ url: currentUrl, status: response.status });
+      await response.body?.cancel();
+      currentUrl = new URL(location, currentUrl).toString();
+      continue;
+    }
+
+    // Read bytes first: only text may be decoded, binary content is carried as it arrived
+    const rawBytes = await readLimitedBody(response);
+    const contentType = response.headers.get('content-type') || '';
+    return {
+      rawContent: isPdf(contentType, rawBytes) ? '' : new TextDecoder().decode(rawBytes),
+      rawBytes,
+      responseHeaders: Object.fromEntries(response.headers.entries()),
+      screenshot: null,
+      renderedPdf: null,
+      contentType,
+      statusCode: response.status,
+      finalUrl: currentUrl,
+      redirectChain,
+      responseTimeMs: Date.now() - startedAt,
+      validators: {
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified'),
+      },
+    };
+  }
+}
+
+interface ExtractedText {
+  text: string;
+  // Clean text of each page, only for PDFs
+  pages: string[] | null;
+  // Rows and columns of the tables on HTML pages
+  tables: SnapshotTable[] | null;
+}
+
+// Extract clean text based on content type
+async function extractCleanText(
+  rawContent: string,
+  rawBytes: Uint8Array,
+  contentType: string,
+  selectors: ContentSelectors,
+): Promise<ExtractedText> {
+  if (isPdf(contentType, rawBytes)) {
+    // Handle PDF files
+    console.log('Detected PDF content, extracting text...');
+
+    const { text, pages } = await extractPdfContent(rawBytes);
+
+    console.log(`Extracted ${text.length} characters from ${pages.length} PDF pages`);
+    return { text, pages, tables: null };
+  }
+
+  if (contentType.includes('text/html')) {
+    // Only parse the DOM for text when the URL is scoped, so unscoped hashes stay comparable with older snapshots
+    const text = selectors.include.length > 0 || selectors.exclude.length > 0
+      ? extractScopedHtmlText(rawContent, selectors)
+      : stripHtml(rawContent);
+    return { text, pages: null, tables: extractHtmlTables(rawContent, selectors) };
+  }
+
+  // For other content types, try to get as text
+  return { text: rawContent.replace(/\s+/g, ' ').trim(), pages: null, tables: null };
+}
+
+// POST an alert to the URL's webhook, merged over its custom payload
+async function sendWebhook(
+  monitoredUrl: { url: string; alert_webhook_url: string | null; alert_webhook_payload: Record<string, unknown> | null },
+  payload: Record<string, unknown>,
+) {
+  if (!monitoredUrl.alert_webhook_url) return;
+
+  console.log(`Sending webhook to: ${monitoredUrl.alert_webhook_url}`);
+
+  await fetch(monitoredUrl.alert_webhook_url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      ...(monitoredUrl.alert_webhook_payload || {}),
+      url: monitoredUrl.url,
+      ...payload,
+      timestamp: new Date().toISOString(),
+    }),
+  }).catch(err => console.error('Webhook error:', err));
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -102,7 +438,32 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
     );
 
-    const { urlId } = await req.json();
+    const { urlId, preview } = await req.json();
+
+    // Preview mode: fetch and extract without storing anything, so selectors and value watchers can be tried out
+    if (preview) {
+      const { rawContent, rawBytes, contentType, statusCode } = await fetchContent(
+        preview.url,
+        preview.use_javascript_rendering === true,
+      );
+      const previewSelectors = {
+        include: preview.include_selectors || [],
+        exclude: preview.exclude_selectors || [],
+      };
+      const { text: cleanText, pages, tables } = await extractCleanText(rawContent, rawBytes, contentType, previewSelectors);
+      const values = Array.isArray(preview.value_watchers)
+        ? extractWatchedValues(
+          preview.value_watchers,
+          () => contentType.includes('text/html') ? selectContent(rawContent, previewSelectors) : null,
+          cleanText,
+        )
+        : null;
+
+      return new Response(
+        JSON.stringify({ success: true, cleanText, contentLength: cleanText.length, pageCount: pages?.length ?? null, tableCount: tables?.length ?? 0, values, contentType, statusCode }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
 
     console.log(`Checking URL with ID: ${urlId}`);
 
@@ -119,152 +480,573 @@ serve(async (req) => {
 
     console.log(`Fetching content from: ${monitoredUrl.url}`);
 
-    let statusCode = 200;
-    let contentType = '';
-    let rawContent = '';
-    let responseForStorage: Response | null = null;
+    // Track up/down transitions separately from content changes
+    const trackAvailability = async (result: AvailabilityResult) => {
+      const { transition, downtimeSeconds } = await recordAvailability(supabaseClient, monitoredUrl, result);
+
+      if (transition) {
+        console.log(`Availability changed: ${transition}`);
+        await sendWebhook(monitoredUrl, {
+          alertType: 'availability',
+          alertLevel: transition === 'down' ? 'red' : 'green',
+          transition,
+          statusCode: result.statusCode,
+          errorCategory: result.errorCategory,
+          reason: result.reason,
+          downtimeSeconds,
+        });
+      }
+    };
+
+    const expectedStatusCodes: number[] = monitoredUrl.expected_status_codes?.length
+      ? monitoredUrl.expected_status_codes
+      : [200];
+
+    // Every snapshot extends the URL's evidence chain: its id and timestamp are fixed here so the
+    // chain hash covers exactly what is stored
+    const insertChainedSnapshot = async (
+      snapshot: Record<string, unknown> & Partial<EvidenceRecord>,
+    ) => {
+      const { data: previous } = await supabaseClient
+        .from('content_snapshots')
+        .select('id, chain_hash')
+        .eq('monitored_url_id', urlId)
+        .not('chain_hash', 'is', null)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      const record: EvidenceRecord = {
+        id: crypto.randomUUID(),
+        monitored_url_id: urlId,
+        created_at: new Date().toISOString(),
+        check_failed: snapshot.check_failed ?? false,
+        status_code: snapshot.status_code ?? null,
+        final_url: snapshot.final_url ?? null,
+        raw_sha256: snapshot.raw_sha256 ?? null,
+        content_hash: snapshot.content_hash ?? null,
+        pdf_file_path: snapshot.pdf_file_path ?? null,
+        file_sha256: snapshot.file_sha256 ?? null,
+        previous_snapshot_id: previous?.id ?? null,
+        previous_chain_hash: previous?.chain_hash ?? null,
+      };
+
+      return await supabaseClient
+        .from('content_snapshots')
+        .insert({ ...snapshot, ...record, chain_hash: await computeChainHash(record) })
+        .select('id')
+        .single();
+    };
+
+    const checkStartedAt = Date.now();
+    let rawContent: string;
+    let rawBytes: Uint8Array | null = null;
+    let responseHeaders: Record<string, string> | null = null;
+    let screenshot: Uint8Array | null = null;
+    let renderedPdf: Uint8Array | null = null;
+    let contentType: string;
+    let statusCode: number;
+    let finalUrl: string;
+    let redirectChain: RedirectHop[];
+    let responseTimeMs: number;
+    let validators: HttpValidators;
+    let cleanText = '';
+    let pageTexts: string[] | null = null;
+    let tables: SnapshotTable[] | null = null;
+
+    // Revalidate with the validators saved by the last full fetch, if there are any
+    const useJavaScript = monitoredUrl.use_javascript_rendering === true;
+    const storedValidators: HttpValidators | null = !useJavaScript && (monitoredUrl.http_etag || monitoredUrl.http_last_modified)
+      ? { etag: monitoredUrl.http_etag, lastModified: monitoredUrl.http_last_modified }
+      : null;
+    let notModified = false;
+
+    try {
+      // Check if this URL is configured to use JavaScript rendering
+      ({ rawContent, rawBytes, responseHeaders, screenshot, renderedPdf, contentType, statusCode, finalUrl, redirectChain, responseTimeMs, validators } = await fetchContent(
+        monitoredUrl.url,
+        useJavaScript,
+        storedValidators,
+        monitoredUrl.capture_screenshot === true,
+      ));
+
+      console.log(`Content-Type: ${contentType}, Status: ${statusCode}, ${responseTimeMs}ms, ${redirectChain.length} redirects`);
+
+      notModified = statusCode === 304 && storedValidators !== null;
+
+      if (!notModified && !expectedStatusCodes.includes(statusCode)) {
+        throw new HttpStatusError(statusCode);
+      }
+
+      if (!notModified) {
+        ({ text: cleanText, pages: pageTexts, tables } = await extractCleanText(rawContent, rawBytes, contentType, {
+          include: monitoredUrl.include_selectors || [],
+          exclude: monitoredUrl.exclude_selectors || [],
+        }));
+      }
+    } catch (checkError) {
+      // Record the failure on the timeline instead of silently dropping the check
+      const errorCategory = categorizeCheckError(checkError);
+      const errorMessage = checkError instanceof Error ? checkError.message : String(checkError);
+      const consecutiveFailures = (monitoredUrl.consecutive_failures || 0) + 1;
+      const checkDuration = Date.now() - checkStartedAt;
+
+      let failureAlertLevel = 'green';
+      if (consecutiveFailures >= monitoredUrl.failure_red_threshold) {
+        failureAlertLevel = 'red';
+      } else if (consecutiveFailures >= monitoredUrl.failure_yellow_threshold) {
+        failureAlertLevel = 'yellow';
+      }
+
+      console.error(`Check failed (${errorCategory}, ${consecutiveFailures} in a row): ${errorMessage}`);
+
+      const { error: failureError } = await insertChainedSnapshot({
+        check_failed: true,
+        status_code: checkError instanceof HttpStatusError ? checkError.status : null,
+        alert_triggered: failureAlertLevel,
+        error_category: errorCategory,
+        error_class: checkError instanceof Error ? checkError.name : typeof checkError,
+        error_message: errorMessage,
+        check_duration_ms: checkDuration,
+        // An unexpected status still returned a body worth proving
+        raw_sha256: rawBytes ? await sha256Hex(rawBytes) : null,
+        response_headers: responseHeaders,
+      });
+
+      if (failureError) {
+        console.error('Error saving failed check:', failureError);
+      }
+
+      // Unknown failures say nothing about the site; extraction failures mean it did respond
+      if (errorCategory !== 'unknown') {
+        await trackAvailability({
+          isUp: !isDowntimeCategory(errorCategory),
+          statusCode: checkError instanceof HttpStatusError ? checkError.status : null,
+          errorCategory,
+          reason: errorMessage,
+        });
+      }
+
+      const failedAt = new Date();
+      await supabaseClient
+        .from('monitored_urls')
+        .update({
+          consecutive_failures: consecutiveFailures,
+          last_checked_at: failedAt.toISOString(),
+          next_check_at: computeNextCheckAt(monitoredUrl, failedAt, failedAt).toISOString(),
+        })
+        .eq('id', urlId);
+
+      // Alert once when each threshold is reached rather than on every retry
+      if (
+        consecutiveFailures === monitoredUrl.failure_yellow_threshold ||
+        consecutiveFailures === monitoredUrl.failure_red_threshold
+      ) {
+        await sendWebhook(monitoredUrl, {
+          alertType: 'failure',
+          alertLevel: failureAlertLevel,
+          consecutiveFailures,
+          errorCategory,
+          errorMessage,
+        });
+      }
+
+      // A recorded failure is a completed check, so callers do not retry it; only a failure
+      // that could not be recorded is an error of this function
+      return new Response(
+        JSON.stringify({
+          checkFailed: true,
+          error: errorMessage,
+          errorCategory,
+          consecutiveFailures,
+          alertLevel: failureAlertLevel,
+        }),
+        {
+          status: failureError ? 500 : 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const checkDuration = Date.now() - checkStartedAt;
+    await trackAvailability({ isUp: true, statusCode, errorCategory: null, reason: null });
+
+    // Certificate details need their own TLS handshake and never fail the check
+    const certificate = await inspectCertificate(finalUrl);
+    let certificateAlertSent = false;
+    if (certificate && monitoredUrl.cert_expiry_alert_days > 0) {
+      const daysUntilExpiry = Math.floor((certificate.expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+      // Alert once per certificate; a renewed certificate has a new expiry and can alert again
+      const alreadyAlerted = monitoredUrl.cert_expiry_alerted_for
+        && new Date(monitoredUrl.cert_expiry_alerted_for).getTime() === certificate.expiresAt.getTime();
+
+      if (daysUntilExpiry <= monitoredUrl.cert_expiry_alert_days && !alreadyAlerted) {
+        console.log(`Certificate expires in ${daysUntilExpiry} days`);
+        await sendWebhook(monitoredUrl, {
+          alertType: 'certificate',
+          alertLevel: daysUntilExpiry <= 0 ? 'red' : 'yellow',
+          certificateIssuer: certificate.issuer,
+          certificateExpiresAt: certificate.expiresAt.toISOString(),
+          daysUntilExpiry,
+        });
+        certificateAlertSent = true;
+      }
+    }
+
+    const checkedAt = new Date();
+    const urlUpdate = {
+      last_checked_at: checkedAt.toISOString(),
+      next_check_at: computeNextCheckAt(monitoredUrl, checkedAt, checkedAt).toISOString(),
+      consecutive_failures: 0,
+      ...(certificateAlertSent && { cert_expiry_alerted_for: certificate?.expiresAt.toISOString() }),
+    };
 
-    // Check if this URL is configured to use JavaScript rendering
-    const shouldUseJavaScript = monitoredUrl.use_javascript_rendering === true;
-    const browserlessAvailable = !!Deno.env.get('BROWSERLESS_API_KEY');
-    const usePuppeteer = shouldUseJavaScript && browserlessAvailable;
+    // The last snapshot that stored its own content; unchanged checks point at it instead of copying it
+    const { data: lastSnapshot } = await supabaseClient
+      .from('content_snapshots')
+      .select('*')
+      .eq('monitored_url_id', urlId)
+      .eq('check_failed', false)
+      .eq('heartbeat', false)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
-    if (shouldUseJavaScript && !browserlessAvailable) {
-      console.warn('JavaScript rendering requested but BROWSERLESS_API_KEY not set. Falling back to regular fetch.');
+    // Calculate content hash using the clean text (a 304 has no text to hash)
+    let contentHash: string | null = null;
+    if (!notModified) {
+      const data = new TextEncoder().encode(cleanText);
+      const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+      const hashArray = Array.from(new Uint8Array(hashBuffer));
+      contentHash = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
     }
 
-    if (usePuppeteer) {
+    // Compare the screenshot with the last stored one
+    let visualChange: number | null = null;
+    if (screenshot && lastSnapshot?.screenshot_path) {
       try {
-        console.log('Using Puppeteer for JavaScript-rendered content...');
-        const puppeteerResult = await fetchWithPuppeteer(monitoredUrl.url);
-        rawContent = puppeteerResult.content;
-        contentType = puppeteerResult.contentType;
-        statusCode = 200;
-      } catch (puppeteerError) {
-        console.error('Puppeteer failed, falling back to regular fetch:', puppeteerError);
-        // Fall back to regular fetch
-        const response = await fetch(monitoredUrl.url);
-        statusCode = response.status;
-        contentType = response.headers.get('content-type') || '';
-        responseForStorage = response.clone();
-        rawContent = await response.text();
+        const { data: previousScreenshot, error: downloadError } = await supabaseClient.storage
+          .from('content-pdfs')
+          .download(lastSnapshot.screenshot_path);
+
+        if (downloadError || !previousScreenshot) {
+          throw downloadError ?? new Error('Previous screenshot is missing');
+        }
+
+        visualChange = computeVisualChange(
+          new Uint8Array(await previousScreenshot.arrayBuffer()),
+          screenshot,
+          monitoredUrl.visual_diff_tolerance ?? 0.1,
+        );
+        console.log(`Visual change: ${(visualChange * 100).toFixed(2)}% of pixels`);
+      } catch (visualError) {
+        console.error('Visual comparison failed:', visualError);
       }
-    } else {
-      // Regular fetch without JavaScript rendering
-      const fetchMethod = shouldUseJavaScript ? 'regular fetch (Browserless unavailable)' : 'regular fetch';
-      console.log(`Using ${fetchMethod}...`);
-      const response = await fetch(monitoredUrl.url);
-      statusCode = response.status;
-      contentType = response.headers.get('content-type') || '';
-      responseForStorage = response.clone();
-      rawContent = await response.text();
     }
 
-    console.log(`Content-Type: ${contentType}, Status: ${statusCode}`);
+    // With visual alerting on, a visual change big enough to alert on is stored even when the text is the same
+    const visualAlerting = monitoredUrl.visual_yellow_threshold !== null && monitoredUrl.visual_red_threshold !== null;
+    const visuallyChanged = visualAlerting && visualChange !== null && visualChange >= monitoredUrl.visual_yellow_threshold;
 
-    // Extract clean text based on content type
-    let cleanText = '';
+    // Carry each watcher's latest observation forward for a 304, which has no body to read values from
+    const repeatLastObservations = (watchers: ValueWatcher[]): Promise<ExtractedValue[]> =>
+      Promise.all(watchers.map(async (watcher) => {
+        const { data: last } = await supabaseClient
+          .from('value_observations')
+          .select('value, matched_text, error')
+          .eq('watcher_id', watcher.id)
+          .order('observed_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
 
-    if (contentType.includes('application/pdf')) {
-      // Handle PDF files
-      console.log('Detected PDF content, extracting text...');
-
-      const encoder = new TextEncoder();
-      const arrayBuffer = encoder.encode(rawContent).buffer;
-      const pdfText = await extractTextFromPDF(arrayBuffer);
-      cleanText = pdfText
-        .replace(/\0/g, '') // Remove null characters that PostgreSQL can't handle
-        .replace(/\s+/g, ' ') // Normalize whitespace
-        .trim();
-
-      console.log(`Extracted ${cleanText.length} characters from PDF`);
-    } else if (contentType.includes('text/html')) {
-      // Handle HTML content
-      cleanText = rawContent
-        .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '') // Remove scripts
-        .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '') // Remove styles
-        .replace(/<[^>]+>/g, ' ') // Remove all HTML tags
-        .replace(/\s+/g, ' ') // Normalize whitespace
-        .trim();
-    } else {
-      // For other content types, try to get as text
-      cleanText = rawContent.replace(/\s+/g, ' ').trim();
+        if (!last) {
+          return { value: null, matchedText: null, error: 'The page was not modified and no earlier value was recorded' };
+        }
+        return { value: last.value === null ? null : Number(last.value), matchedText: last.matched_text, error: last.error };
+      }));
+
+    // Read the URL's value watchers from this check's content, extend their time series and alert
+    // on their rules. Runs for every check, unchanged or not, so each series has a point per check.
+    const recordValueObservations = async (snapshotId: string | null): Promise<string[]> => {
+      const { data: watchers, error: watchersError } = await supabaseClient
+        .from('value_watchers')
+        .select('id, name, extractor, pattern, alert_rule, alert_value')
+        .eq('monitored_url_id', urlId)
+        .eq('is_active', true);
+
+      if (watchersError) {
+        console.error('Error loading value watchers:', watchersError);
+        return [];
+      }
+      if (!watchers || watchers.length === 0) return [];
+
+      // Selectors see the same part of the page as the clean text
+      const scope = () => contentType.includes('text/html')
+        ? selectContent(rawContent, {
+          include: monitoredUrl.include_selectors || [],
+          exclude: monitoredUrl.exclude_selectors || [],
+        })
+        : null;
+      const extracted = notModified
+        ? await repeatLastObservations(watchers as ValueWatcher[])
+        : extractWatchedValues(watchers as ValueWatcher[], scope, cleanText);
+      const alertMessages: string[] = [];
+
+      for (const [index, watcher] of (watchers as ValueWatcher[]).entries()) {
+        const { value, matchedText, error } = extracted[index];
+        const { data: previous } = await supabaseClient
+          .from('value_observations')
+          .select('value')
+          .eq('watcher_id', watcher.id)
+          .not('value', 'is', null)
+          .order('observed_at', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        const previousValue = previous ? Number(previous.value) : null;
+        const alertMessage = evaluateValueRule(watcher, previousValue, value);
+        console.log(`Value ${watcher.name}: ${value ?? error}${alertMessage ? ` - ${alertMessage}` : ''}`);
+
+        const { error: observationError } = await supabaseClient
+          .from('value_observations')
+          .insert({
+            watcher_id: watcher.id,
+            snapshot_id: snapshotId,
+            value,
+            matched_text: matchedText,
+            error,
+            alert_message: alertMessage,
+            observed_at: checkedAt.toISOString(),
+          });
+
+        if (observationError) {
+          console.error(`Error saving value observation for ${watcher.name}:`, observationError);
+        }
+
+        if (alertMessage) {
+          alertMessages.push(alertMessage);
+          await sendWebhook(monitoredUrl, {
+            alertType: 'value',
+            alertLevel: 'yellow',
+            valueName: watcher.name,
+            alertRule: watcher.alert_rule,
+            alertValue: watcher.alert_value,
+            previousValue,
+            value,
+            message: alertMessage,
+          });
+        }
+      }
+
+      return alertMessages;
+    };
+
+    // Record when a keyword rule's phrase starts or stops being mentioned and alert on it, whatever
+    // the size of the change. Only changed content can do that, so heartbeats skip this.
+    const recordKeywordEvents = async (previousText: string, snapshotId: string | null) => {
+      const { data: rules, error: rulesError } = await supabaseClient
+        .from('keyword_rules')
+        .select('id, phrase, match_type, case_sensitive, alert_on')
+        .eq('monitored_url_id', urlId)
+        .eq('is_active', true);
+
+      if (rulesError) {
+        console.error('Error loading keyword rules:', rulesError);
+        return [];
+      }
+
+      const events: { phrase: string; event: string; snippet: string }[] = [];
+      for (const rule of (rules || []) as KeywordRule[]) {
+        let keywordEvent;
+        try {
+          keywordEvent = evaluateKeywordRule(rule, previousText, cleanText);
+        } catch (ruleError) {
+          console.error(`Keyword rule "${rule.phrase}" could not be evaluated:`, ruleError);
+          continue;
+        }
+        if (!keywordEvent) continue;
+
+        console.log(`Keyword "${rule.phrase}" ${keywordEvent.event}`);
+        events.push({ phrase: rule.phrase, event: keywordEvent.event, snippet: keywordEvent.snippet });
+
+        const { error: eventError } = await supabaseClient
+          .from('keyword_events')
+          .insert({
+            rule_id: rule.id,
+            snapshot_id: snapshotId,
+            event: keywordEvent.event,
+            snippet: keywordEvent.snippet,
+            match_count: keywordEvent.matchCount,
+            alert_sent: keywordEvent.alert && !!monitoredUrl.alert_webhook_url,
+            created_at: checkedAt.toISOString(),
+          });
+
+        if (eventError) {
+          console.error(`Error saving keyword event for "${rule.phrase}":`, eventError);
+        }
+
+        if (keywordEvent.alert) {
+          await sendWebhook(monitoredUrl, {
+            alertType: 'keyword',
+            alertLevel: 'yellow',
+            phrase: rule.phrase,
+            matchType: rule.match_type,
+            event: keywordEvent.event,
+            snippet: keywordEvent.snippet,
+            matchCount: keywordEvent.matchCount,
+          });
+        }
+      }
+
+      return events;
+    };
+
+    if (notModified || (lastSnapshot && contentHash === lastSnapshot.content_hash && !visuallyChanged)) {
+      // Nothing changed: record a heartbeat that references the last stored artifact,
+      // so storage grows with changes rather than with check frequency
+      console.log(notModified
+        ? 'Not modified since the last full fetch, skipping extraction and storage'
+        : 'Content unchanged, recording heartbeat');
+
+      const { data: heartbeat, error: heartbeatError } = await insertChainedSnapshot({
+        heartbeat: true,
+        not_modified: notModified,
+        source_snapshot_id: lastSnapshot?.id ?? null,
+        content_hash: lastSnapshot?.content_hash ?? null,
+        content_length: lastSnapshot?.content_length ?? null,
+        status_code: statusCode,
+        alert_triggered: 'green',
+        change_percentage: 0,
+        diff_score: 0,
+        visual_change_percentage: visualChange,
+        check_duration_ms: checkDuration,
+        response_time_ms: responseTimeMs,
+        final_url: finalUrl,
+        redirect_chain: redirectChain,
+        tls_issuer: certificate?.issuer ?? null,
+        tls_expires_at: certificate?.expiresAt.toISOString() ?? null,
+        // A 304 has no body; an unchanged full fetch still proves what was served this time
+        raw_sha256: notModified ? null : await sha256Hex(rawBytes!),
+        response_headers: responseHeaders,
+      });
+
+      if (heartbeatError) {
+        console.error('Error saving heartbeat snapshot:', heartbeatError);
+      }
+
+      const valueAlerts = await recordValueObservations(heartbeat?.id ?? null);
+
+      await supabaseClient
+        .from('monitored_urls')
+        .update({
+          ...urlUpdate,
+          // A full fetch of unchanged content still refreshes the validators
+          ...(!notModified && { http_etag: validators.etag, http_last_modified: validators.lastModified }),
+        })
+        .eq('id', urlId);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          heartbeat: true,
+          notModified,
+          alertLevel: 'green',
+          changePercentage: 0,
+          diffScore: 0,
+          valueAlerts,
+          statusCode,
+          responseTimeMs,
+          finalUrl,
+          certificateExpiresAt: certificate?.expiresAt.toISOString() ?? null,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    // Calculate content hash using the clean text
-    const encoder = new TextEncoder();
-    const data = encoder.encode(cleanText);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    const contentHash = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-    
     // Store PDF file in storage
     let pdfFilePath: string | null = null;
+    let fileSha256: string | null = null;
+    let pdfRenderMethod: PdfRenderMethod | null = null;
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
     const sanitizedUrl = monitoredUrl.url.replace(/[^a-zA-Z0-9]/g, '_').substring(0, 50);
 
+    // PDFs served with a generic content type are still stored and labelled as PDFs
+    const pdfResponse = isPdf(contentType, rawBytes!);
+    const rawContentType = pdfResponse ? 'application/pdf' : contentType;
+
+    // Keep the response body exactly as received, next to the rendering below
+    let rawBodyPath: string | null = null;
+    try {
+      const rawFileName = `raw/${sanitizedUrl}_${timestamp}.${rawBodyExtension(rawContentType)}`;
+      const { error: rawUploadError } = await supabaseClient.storage
+        .from('content-pdfs')
+        .upload(rawFileName, new Blob([rawBytes!], { type: rawContentType || 'application/octet-stream' }), {
+          contentType: rawContentType || 'application/octet-stream',
+          cacheControl: '3600',
+          upsert: false
+        });
+
+      if (rawUploadError) {
+        console.error('Failed to upload raw body:', rawUploadError);
+      } else {
+        rawBodyPath = rawFileName;
+      }
+    } catch (rawError) {
+      console.error('Error storing raw body:', rawError);
+    }
+
+    let screenshotPath: string | null = null;
+    if (screenshot) {
+      const screenshotFileName = `screenshots/${sanitizedUrl}_${timestamp}.png`;
+      const { error: screenshotUploadError } = await supabaseClient.storage
+        .from('content-pdfs')
+        .upload(screenshotFileName, new Blob([screenshot], { type: 'image/png' }), {
+          contentType: 'image/png',
+          cacheControl: '3600',
+          upsert: false
+        });
+
+      if (screenshotUploadError) {
+        console.error('Failed to upload screenshot:', screenshotUploadError);
+      } else {
+        screenshotPath = screenshotFileName;
+      }
+    }
+
     try {
       let fileBuffer: ArrayBuffer;
       let fileType: string;
       let fileName: string;
-      const encoder = new TextEncoder();
+      let renderMethod: PdfRenderMethod;
 
-      if (contentType.includes('application/pdf')) {
-        // Already a PDF, just store it
-        const pdfBytes = encoder.encode(rawContent);
-        fileBuffer = pdfBytes.buffer;
+      if (pdfResponse) {
+        // Already a PDF, store it byte for byte
+        fileBuffer = rawBytes!.slice().buffer;
+        fileType = 'application/pdf';
+        fileName = `${sanitizedUrl}_${timestamp}.pdf`;
+        renderMethod = 'original';
+      } else if (renderedPdf) {
+        // The browser's own print of the rendered page keeps styles and images
+        fileBuffer = renderedPdf.buffer as ArrayBuffer;
         fileType = 'application/pdf';
         fileName = `${sanitizedUrl}_${timestamp}.pdf`;
+        renderMethod = 'browser';
       } else {
-        // For HTML, convert to PDF using jsPDF
-        console.log('Converting HTML to PDF...');
+        console.log('Rendering HTML to a structured PDF...');
 
         try {
-          // Strip HTML tags and extract text content
-          const textContent = rawContent
-            .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-            .replace(/<style\b[^<]*(?:(?!<\/style>)<[^<]*)*<\/style>/gi, '')
-            .replace(/<[^>]+>/g, ' ')
-            .replace(/\s+/g, ' ')
-            .trim();
-
-          // Create PDF with jsPDF
-          const doc = new jsPDF({
-            orientation: 'portrait',
-            unit: 'mm',
-            format: 'a4'
-          });
-
-          doc.setFontSize(10);
-          const pageWidth = doc.internal.pageSize.getWidth() - 20;
-          const pageHeight = doc.internal.pageSize.getHeight() - 20;
-          const lineHeight = 5;
-
-          const lines = doc.splitTextToSize(textContent, pageWidth);
-
-          let y = 10;
-          for (let i = 0; i < lines.length; i++) {
-            if (y > pageHeight) {
-              doc.addPage();
-              y = 10;
-            }
-            doc.text(lines[i], 10, y);
-            y += lineHeight;
-          }
-
-          // Get PDF as Uint8Array and convert to ArrayBuffer
-          const pdfBytes = doc.output('arraybuffer');
-          fileBuffer = pdfBytes;
+          fileBuffer = renderStructuredPdf(rawContent, finalUrl, checkedAt);
           fileType = 'application/pdf';
           fileName = `${sanitizedUrl}_${timestamp}.pdf`;
-          console.log('HTML converted to PDF successfully');
+          renderMethod = 'structured';
+          console.log('HTML rendered to PDF successfully');
         } catch (error) {
-          console.error('PDF conversion failed:', error);
+          console.error('PDF rendering failed:', error);
           // Fallback: store as HTML
-          const htmlBytes = encoder.encode(rawContent);
-          fileBuffer = htmlBytes.buffer;
+          fileBuffer = rawBytes!.slice().buffer;
           fileType = 'text/html';
           fileName = `${sanitizedUrl}_${timestamp}.html`;
+          renderMethod = 'html_fallback';
         }
       }
       
@@ -282,6 +1064,8 @@ serve(async (req) => {
         console.error('Failed to upload file:', uploadError);
       } else {
         pdfFilePath = fileName;
+        pdfRenderMethod = renderMethod;
+        fileSha256 = await sha256Hex(new Uint8Array(fileBuffer));
         console.log(`Stored file: ${fileName}`);
       }
     } catch (fileError) {
@@ -289,17 +1073,15 @@ serve(async (req) => {
       // Continue without file storage - don't fail the entire check
     }
 
-    // Get the last snapshot
-    const { data: lastSnapshot } = await supabaseClient
-      .from('content_snapshots')
-      .select('*')
-      .eq('monitored_url_id', urlId)
-      .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-
     let alertLevel = 'green';
     let changePercentage = 0;
+    let diffScore = 0;
+    let changedPages: number[] | null = null;
+    let removedPages: number[] | null = null;
+    let previousPageCount: number | null = null;
+    let pageSummary: string | null = null;
+    // Full clean text of the last stored snapshot, null for the first snapshot and legacy previews
+    let previousFullText: string | null = null;
 
     if (lastSnapshot) {
       // Calculate change percentage
@@ -309,59 +1091,128 @@ serve(async (req) => {
         ? Math.abs((newLength - oldLength) / oldLength) 
         : 0;
 
+      // The hash differs (equal hashes were recorded as heartbeats above), so measure the change
+      const { data: lastText } = await supabaseClient
+        .from('content_snapshot_texts')
+        .select('full_text, page_texts')
+        .eq('snapshot_id', lastSnapshot.id)
+        .maybeSingle();
+
+      // Legacy snapshots only kept a prefix of the text, so compare against the same prefix
+      const previousText = lastText?.full_text ?? lastSnapshot.content_text ?? '';
+      const previousTruncated = !lastText && previousText.length < oldLength;
+      previousFullText = lastText?.full_text ?? null;
+      diffScore = computeDiffScore(
+        previousText,
+        previousTruncated ? cleanText.substring(0, previousText.length) : cleanText,
+      );
+
+      // Both versions were PDFs with per-page text, so say which pages changed
+      if (pageTexts && lastText?.page_texts) {
+        const pageChanges = comparePages(lastText.page_texts, pageTexts);
+        changedPages = pageChanges.changedPages;
+        removedPages = pageChanges.removedPages;
+        previousPageCount = lastText.page_texts.length;
+        pageSummary = describePageChanges(pageChanges, previousPageCount, pageTexts.length);
+        console.log(`PDF changes: ${pageSummary}`);
+      }
+
       // Determine alert level
-      if (contentHash !== lastSnapshot.content_hash) {
-        if (statusCode !== 200 || changePercentage >= (monitoredUrl.red_threshold || 0.5)) {
+      if (diffScore >= (monitoredUrl.red_threshold || 0.5)) {
+        alertLevel = 'red';
+      } else if (diffScore >= (monitoredUrl.yellow_threshold || 0.3)) {
+        alertLevel = 'yellow';
+      }
+
+      // Visually driven pages can raise the level even when little text changed
+      if (visualAlerting && visualChange !== null) {
+        if (visualChange >= monitoredUrl.visual_red_threshold) {
           alertLevel = 'red';
-        } else if (changePercentage >= (monitoredUrl.yellow_threshold || 0.3)) {
+        } else if (visualChange >= monitoredUrl.visual_yellow_threshold && alertLevel === 'green') {
           alertLevel = 'yellow';
         }
       }
 
-      console.log(`Change detected: ${changePercentage * 100}% - Alert level: ${alertLevel}`);
+      console.log(`Change detected: ${diffScore * 100}% of words (length ${changePercentage * 100}%) - Alert level: ${alertLevel}`);
 
       // Send webhook if alert triggered
-      if ((alertLevel === 'yellow' || alertLevel === 'red') && monitoredUrl.alert_webhook_url) {
-        const webhookPayload = {
-          ...(monitoredUrl.alert_webhook_payload || {}),
-          url: monitoredUrl.url,
+      if (alertLevel === 'yellow' || alertLevel === 'red') {
+        await sendWebhook(monitoredUrl, {
+          alertType: 'content',
           alertLevel,
           changePercentage: changePercentage * 100,
-          timestamp: new Date().toISOString(),
-        };
-
-        console.log(`Sending webhook to: ${monitoredUrl.alert_webhook_url}`);
-
-        await fetch(monitoredUrl.alert_webhook_url, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(webhookPayload),
-        }).catch(err => console.error('Webhook error:', err));
+          diffScore: diffScore * 100,
+          visualChangePercentage: visualChange !== null ? visualChange * 100 : null,
+          changedPages,
+          removedPages,
+          pageCount: pageTexts?.length ?? null,
+          previousPageCount,
+          pageSummary,
+        });
       }
     }
 
     // Save snapshot
-    const { error: snapshotError } = await supabaseClient
-      .from('content_snapshots')
-      .insert({
-        monitored_url_id: urlId,
-        content_hash: contentHash,
-        content_text: cleanText.substring(0, 10000), // Store first 10k chars of clean text
-        content_length: cleanText.length,
-        status_code: statusCode,
-        alert_triggered: alertLevel,
-        change_percentage: changePercentage,
-        pdf_file_path: pdfFilePath,
-      });
+    const { data: savedSnapshot, error: snapshotError } = await insertChainedSnapshot({
+      content_hash: contentHash,
+      content_text: cleanText.substring(0, 10000), // Preview only, full text is stored below
+      content_length: cleanText.length,
+      status_code: statusCode,
+      alert_triggered: alertLevel,
+      change_percentage: changePercentage,
+      diff_score: diffScore,
+      visual_change_percentage: visualChange,
+      page_count: pageTexts?.length ?? null,
+      changed_pages: changedPages,
+      removed_pages: removedPages,
+      pdf_file_path: pdfFilePath,
+      pdf_render_method: pdfRenderMethod,
+      raw_body_path: rawBodyPath,
+      raw_content_type: rawContentType,
+      screenshot_path: screenshotPath,
+      check_duration_ms: checkDuration,
+      response_time_ms: responseTimeMs,
+      final_url: finalUrl,
+      redirect_chain: redirectChain,
+      tls_issuer: certificate?.issuer ?? null,
+      tls_expires_at: certificate?.expiresAt.toISOString() ?? null,
+      raw_sha256: await sha256Hex(rawBytes!),
+      file_sha256: fileSha256,
+      response_headers: responseHeaders,
+    });
 
     if (snapshotError) {
       console.error('Error saving snapshot:', snapshotError);
+    } else {
+      const { error: textError } = await supabaseClient
+        .from('content_snapshot_texts')
+        .insert({ snapshot_id: savedSnapshot.id, full_text: cleanText, page_texts: pageTexts, tables });
+
+      if (textError) {
+        console.error('Error saving full snapshot text:', textError);
+        // Only the preview survived, so flag it like a legacy snapshot
+        await supabaseClient
+          .from('content_snapshots')
+          .update({ content_truncated: true })
+          .eq('id', savedSnapshot.id);
+      }
     }
 
-    // Update last checked time
+    const valueAlerts = await recordValueObservations(snapshotError ? null : savedSnapshot.id);
+    // A legacy preview would make phrases past its end look like they just appeared
+    const keywordEvents = previousFullText !== null
+      ? await recordKeywordEvents(previousFullText, snapshotError ? null : savedSnapshot.id)
+      : [];
+
+    // Update last checked time, schedule the next check and keep the validators for revalidation.
+    // Validators are only kept once the snapshot is saved, so a 304 always has a snapshot to stand on.
     await supabaseClient
       .from('monitored_urls')
-      .update({ last_checked_at: new Date().toISOString() })
+      .update({
+        ...urlUpdate,
+        http_etag: snapshotError ? null : validators.etag,
+        http_last_modified: snapshotError ? null : validators.lastModified,
+      })
       .eq('id', urlId);
 
     return new Response(
@@ -369,7 +1220,16 @@ serve(async (req) => {
         success: true, 
         alertLevel, 
         changePercentage: changePercentage * 100,
-        statusCode 
+        diffScore: diffScore * 100,
+        visualChangePercentage: visualChange !== null ? visualChange * 100 : null,
+        pageCount: pageTexts?.length ?? null,
+        pageSummary,
+        valueAlerts,
+        keywordEvents,
+        statusCode,
+        responseTimeMs,
+        finalUrl,
+        certificateExpiresAt: certificate?.expiresAt.toISOString() ?? null,
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
@@ -0,0 +1,80 @@
+import { patternProblem } from "../_shared/patterns.ts";
+
+// A row of keyword_rules
+export interface KeywordRule {
+  id: string;
+  phrase: string;
+  match_type: 'keyword' | 'regex';
+  case_sensitive: boolean;
+  alert_on: 'appear' | 'disappear' | 'both';
+}
+
+export interface KeywordEvent {
+  event: 'appeared' | 'disappeared';
+  // Text around the first mention: in the new text when it appeared, in the old text when it disappeared
+  snippet: string;
+  // Mentions in the text the snippet was taken from
+  matchCount: number;
+  // Whether the rule's alert_on setting asks for an alert on this event
+  alert: boolean;
+}
+
+// Characters of context kept on each side of a mention
+const SNIPPET_RADIUS = 80;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Keywords match whole words where they start or end with a word character, so "art" does not match "party".
+// Throws on an invalid or unsafe regex, which the caller records against the rule.
+export function buildMatcher(rule: KeywordRule): RegExp {
+  const flags = rule.case_sensitive ? 'g' : 'gi';
+  if (rule.match_type === 'regex') {
+    const problem = patternProblem(rule.phrase);
+    if (problem) throw new Error(problem);
+    return new RegExp(rule.phrase, flags);
+  }
+
+  const phrase = rule.phrase.trim().replace(/\s+/g, ' ');
+  const pattern = escapeRegExp(phrase).replace(/ /g, '\\s+');
+  const start = /^\w/.test(phrase) ? '\\b' : '';
+  const end = /\w$/.test(phrase) ? '\\b' : '';
+  return new RegExp(`${start}${pattern}${end}`, flags);
+}
+
+function findMentions(text: string, matcher: RegExp): RegExpMatchArray[] {
+  // Empty matches would never advance, and a rule that matches nothing in particular mentions nothing
+  return Array.from(text.matchAll(matcher)).filter((match) => match[0].length > 0);
+}
+
+function snippetAround(text: string, match: RegExpMatchArray): string {
+  const index = match.index ?? 0;
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + match[0].length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+}
+
+// Compare whether the rule is mentioned in the previous and the current clean text.
+// Returns null when nothing started or stopped being mentioned; changes in the number of mentions are ignored.
+export function evaluateKeywordRule(rule: KeywordRule, previousText: string, currentText: string): KeywordEvent | null {
+  const matcher = buildMatcher(rule);
+  const before = findMentions(previousText, matcher);
+  const after = findMentions(currentText, matcher);
+
+  if (before.length === 0 && after.length > 0) {
+    return {
+      event: 'appeared',
+      snippet: snippetAround(currentText, after[0]),
+      matchCount: after.length,
+      alert: rule.alert_on !== 'disappear',
+    };
+  }
+  if (before.length > 0 && after.length === 0) {
+    return {
+      event: 'disappeared',
+      snippet: snippetAround(previousText, before[0]),
+      matchCount: before.length,
+      alert: rule.alert_on !== 'appear',
+    };
+  }
+  return null;
+}
@@ -0,0 +1,91 @@
+// Guards for fetching caller-supplied URLs from inside our own network
+
+// Bodies larger than this are refused rather than held in memory
+export const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+const ipv4Octets = (address: string): number[] | null => {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+  const octets = parts.map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  return octets.every((octet) => octet >= 0 && octet <= 255) ? octets : null;
+};
+
+// Loopback, private, link-local (including cloud metadata), carrier-grade NAT, multicast and
+// reserved addresses, none of which a monitored page should live on
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+
+  const octets = ipv4Octets(ip);
+  if (octets) {
+    const [a, b] = octets;
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0 && octets[2] === 0) ||
+      (a === 198 && (b === 18 || b === 19));
+  }
+
+  if (!ip.includes(':')) return false;
+  // IPv4-mapped addresses reach the IPv4 host they embed
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  return ip === '::' || ip === '::1' || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || ip.startsWith('ff');
+}
+
+// Throw unless the URL is http(s) on a host that only resolves to public addresses.
+// Checked for every redirect hop, since a public page can redirect to an internal one.
+export async function assertPublicUrl(url: string): Promise<void> {
+  const target = new URL(url);
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new Error(`Only http and https URLs can be fetched, not ${target.protocol}`);
+  }
+
+  const hostname = target.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (ipv4Octets(hostname) || hostname.includes(':')) {
+    addresses = [hostname];
+  } else {
+    const lookups = await Promise.allSettled([Deno.resolveDns(hostname, 'A'), Deno.resolveDns(hostname, 'AAAA')]);
+    addresses = lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []));
+    // Unresolvable hosts are left to fetch, which reports them as DNS errors
+  }
+
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || addresses.some(isPrivateAddress)) {
+    throw new Error(`Refusing to fetch ${target.hostname}: it is not a public address`);
+  }
+}
+
+// Read a response body, stopping as soon as it grows past MAX_BODY_BYTES
+export async function readLimitedBody(response: Response): Promise<Uint8Array> {
+  const tooLarge = () => new Error(`Response body is larger than ${MAX_BODY_BYTES / (1024 * 1024)} MB`);
+
+  if (Number(response.headers.get('content-length')) > MAX_BODY_BYTES) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) return new Uint8Array();
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_BODY_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
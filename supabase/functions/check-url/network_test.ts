@@ -0,0 +1,31 @@
+// Tests for the fetch guards. Run with:
+//   deno test --allow-net supabase/functions/check-url/network_test.ts
+import { assert, assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { assertPublicUrl, isPrivateAddress, MAX_BODY_BYTES, readLimitedBody } from "./network.ts";
+
+Deno.test('recognises internal addresses', () => {
+  for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '[::1]', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+    assert(isPrivateAddress(address), address);
+  }
+  for (const address of ['93.184.216.34', '172.32.0.1', '2606:4700::1111']) {
+    assert(!isPrivateAddress(address), address);
+  }
+});
+
+Deno.test('refuses internal and non-http URLs without fetching them', async () => {
+  for (const url of ['http://169.254.169.254/latest/meta-data/', 'http://127.0.0.1:54321/', 'http://[::1]/', 'http://localhost/', 'file:///etc/passwd']) {
+    await assertRejects(() => assertPublicUrl(url), Error, undefined, url);
+  }
+});
+
+Deno.test('reads bodies up to the limit', async () => {
+  const body = await readLimitedBody(new Response('hello'));
+  assertEquals(new TextDecoder().decode(body), 'hello');
+
+  const stream = new ReadableStream({
+    pull(controller) {
+      controller.enqueue(new Uint8Array(1024 * 1024));
+    },
+  });
+  await assertRejects(() => readLimitedBody(new Response(stream)), Error, `${MAX_BODY_BYTES / (1024 * 1024)} MB`);
+});
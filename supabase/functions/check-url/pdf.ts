@@ -0,0 +1,110 @@
+import { getDocument } from "https://esm.sh/pdfjs-serverless@0.3.2";
+import { diffArrays } from "https://esm.sh/diff@8.0.2";
+import { ExtractionError } from "./errors.ts";
+
+const PDF_MAGIC = [0x25, 0x50, 0x44, 0x46, 0x2d]; // "%PDF-"
+
+// Servers often send PDFs as application/octet-stream, so the bytes decide as well as the header
+export function isPdf(contentType: string, bytes: Uint8Array): boolean {
+  return contentType.toLowerCase().includes('application/pdf') ||
+    PDF_MAGIC.every((byte, index) => bytes[index] === byte);
+}
+
+// Text of each page, in page order. PDFs are binary: always pass the bytes exactly as received,
+// never a string that was decoded and re-encoded, which mangles every byte above 0x7F.
+export async function extractTextFromPDF(bytes: Uint8Array): Promise<string[]> {
+  try {
+    // pdf.js may take ownership of the buffer it is given, and the caller still needs the original bytes
+    const pdf = await getDocument(bytes.slice()).promise;
+    const pages: string[] = [];
+
+    for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+      const page = await pdf.getPage(pageNum);
+      const textContent = await page.getTextContent();
+
+      // Combine all text items from the page; marked-content items only delimit structure and carry no text
+      pages.push(textContent.items
+        .flatMap((item) => ('str' in item ? [item.str] : []))
+        .join(' '));
+    }
+
+    return pages;
+  } catch (error) {
+    console.error('Error extracting text from PDF:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new ExtractionError(`Failed to extract text from PDF: ${errorMessage}`);
+  }
+}
+
+const cleanText = (text: string) =>
+  text
+    .replace(/\0/g, '') // Remove null characters that PostgreSQL can't handle
+    .replace(/\s+/g, ' ') // Normalize whitespace
+    .trim();
+
+export interface PdfContent {
+  // Clean text of the whole document, as stored on snapshots
+  text: string;
+  // Clean text of each page, in page order
+  pages: string[];
+}
+
+export async function extractPdfContent(bytes: Uint8Array): Promise<PdfContent> {
+  const pages = await extractTextFromPDF(bytes);
+  return {
+    text: cleanText(pages.join('\n')),
+    pages: pages.map(cleanText),
+  };
+}
+
+export interface PageChanges {
+  // 1-based numbers, in the current document, of pages that are new or differ
+  changedPages: number[];
+  // 1-based numbers, in the previous document, of pages that no longer exist
+  removedPages: number[];
+}
+
+// Line up the pages of two versions so an inserted page does not mark every later page as changed
+export function comparePages(previous: string[], current: string[]): PageChanges {
+  const changedPages: number[] = [];
+  const removedPages: number[] = [];
+  let previousPage = 1;
+  let currentPage = 1;
+  // Pages dropped at the current position, not yet matched with pages added in their place
+  let pendingRemoved: number[] = [];
+
+  for (const change of diffArrays(previous, current)) {
+    const count = change.value.length;
+    if (change.removed) {
+      for (let i = 0; i < count; i++) pendingRemoved.push(previousPage + i);
+      previousPage += count;
+    } else if (change.added) {
+      // A page replaced in place was edited rather than removed, so it is only reported as changed
+      pendingRemoved = pendingRemoved.slice(count);
+      for (let i = 0; i < count; i++) changedPages.push(currentPage + i);
+      currentPage += count;
+    } else {
+      removedPages.push(...pendingRemoved);
+      pendingRemoved = [];
+      previousPage += count;
+      currentPage += count;
+    }
+  }
+  removedPages.push(...pendingRemoved);
+
+  return { changedPages, removedPages };
+}
+
+const formatPageList = (pages: number[]) =>
+  pages.length === 1
+    ? `page ${pages[0]}`
+    : `pages ${pages.slice(0, -1).join(', ')} and ${pages[pages.length - 1]}`;
+
+// Human summary such as "pages 14 and 87 changed; page 3 removed; 200 → 199 pages"
+export function describePageChanges(changes: PageChanges, previousPageCount: number, pageCount: number): string {
+  const parts: string[] = [];
+  if (changes.changedPages.length > 0) parts.push(`${formatPageList(changes.changedPages)} changed`);
+  if (changes.removedPages.length > 0) parts.push(`${formatPageList(changes.removedPages)} removed`);
+  if (previousPageCount !== pageCount) parts.push(`${previousPageCount} → ${pageCount} pages`);
+  return parts.join('; ') || 'no page changed';
+}
@@ -0,0 +1,56 @@
+// Regression tests for PDF extraction. Run with:
+//   deno test --allow-read --allow-net supabase/functions/check-url/pdf_test.ts
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { comparePages, describePageChanges, extractPdfContent, extractTextFromPDF, isPdf } from "./pdf.ts";
+
+const readFixture = (name: string) => Deno.readFile(new URL(`./testdata/${name}`, import.meta.url));
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Expected text of every page of each sample PDF
+const FIXTURES: Record<string, string[]> = {
+  // Uncompressed content stream, plain ASCII
+  'plain.pdf': ['Annual Report 2025 Revenue increased by 12 percent.'],
+  // Flate-compressed content streams across two pages
+  'compressed.pdf': ['Notice of filing', 'Effective date: 1 March 2026 Section 4 (amended)'],
+  // Single-byte WinAnsi text, where every accented character is a byte above 0x7F
+  'winansi.pdf': ['Café résumé – €100'],
+};
+
+for (const [name, expectedPages] of Object.entries(FIXTURES)) {
+  Deno.test(`extracts every page of ${name}`, async () => {
+    const pages = await extractTextFromPDF(await readFixture(name));
+    assertEquals(pages.map(normalize), expectedPages);
+  });
+
+  Deno.test(`clean text of ${name} is stable`, async () => {
+    const bytes = await readFixture(name);
+    const { text, pages } = await extractPdfContent(bytes);
+    assertEquals(text, normalize(expectedPages.join(' ')));
+    assertEquals(pages, expectedPages);
+    // Extraction must not consume the caller's bytes, which are stored afterwards
+    assertEquals(bytes, await readFixture(name));
+  });
+}
+
+Deno.test('recognises PDFs by content type or by their bytes', async () => {
+  const bytes = await readFixture('plain.pdf');
+  assert(isPdf('application/pdf', new Uint8Array()));
+  assert(isPdf('application/octet-stream', bytes));
+  assert(!isPdf('text/html; charset=utf-8', new TextEncoder().encode('<!doctype html>')));
+});
+
+Deno.test('reports edited, inserted and removed pages', () => {
+  const previous = ['cover', 'contents', 'terms', 'fees', 'annex'];
+  // "terms" edited, a page inserted after it, "annex" removed
+  const current = ['cover', 'contents', 'terms (amended)', 'new schedule', 'fees'];
+  const changes = comparePages(previous, current);
+  assertEquals(changes, { changedPages: [3, 4], removedPages: [5] });
+  assertEquals(describePageChanges(changes, 5, 5), 'pages 3 and 4 changed; page 5 removed');
+});
+
+Deno.test('an inserted page does not mark later pages as changed', () => {
+  const changes = comparePages(['a', 'b', 'c'], ['a', 'inserted', 'b', 'c']);
+  assertEquals(changes, { changedPages: [2], removedPages: [] });
+  assertEquals(describePageChanges(changes, 3, 4), 'page 2 changed; 3 → 4 pages');
+});
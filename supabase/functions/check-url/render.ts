@@ -0,0 +1,325 @@
+import { jsPDF } from "https://esm.sh/jspdf@2.5.2";
+import { DOMParser, Element, Node, NodeType } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+
+// How the archival PDF of a snapshot was produced (content_snapshots.pdf_render_method)
+export type PdfRenderMethod = 'original' | 'browser' | 'structured' | 'html_fallback';
+
+const MARGIN_MM = 15;
+const PT_TO_MM = 0.3528;
+const BODY_FONT_SIZE = 10;
+const HEADING_FONT_SIZES: Record<string, number> = { h1: 20, h2: 16, h3: 14, h4: 12, h5: 11, h6: 10 };
+const LIST_INDENT_MM = 6;
+
+// Content of these elements is never rendered
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'head', 'button', 'select']);
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset', 'figcaption',
+  'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p',
+  'pre', 'section', 'summary', 'table', 'ul',
+]);
+
+interface TextRun {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  mono: boolean;
+  link: string | null;
+}
+
+type RunStyle = Omit<TextRun, 'text'>;
+
+const PLAIN: RunStyle = { bold: false, italic: false, mono: false, link: null };
+
+// Resolve a link against the page; in-page anchors and script links are not worth keeping
+function resolveLink(href: string | null, baseUrl: string): string | null {
+  if (!href || href.startsWith('#') || href.toLowerCase().startsWith('javascript:')) return null;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return null;
+  }
+}
+
+// Lays text out top to bottom with automatic page breaks
+class PdfWriter {
+  readonly doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  private readonly pageWidth = this.doc.internal.pageSize.getWidth();
+  private readonly pageHeight = this.doc.internal.pageSize.getHeight();
+  private y = MARGIN_MM;
+
+  get contentWidth() {
+    return this.pageWidth - 2 * MARGIN_MM;
+  }
+
+  space(mm: number) {
+    this.y += mm;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height > this.pageHeight - MARGIN_MM) {
+      this.doc.addPage();
+      this.y = MARGIN_MM;
+    }
+  }
+
+  private setFont(style: RunStyle, fontSize: number) {
+    const fontStyle = style.bold && style.italic ? 'bolditalic' : style.bold ? 'bold' : style.italic ? 'italic' : 'normal';
+    this.doc.setFont(style.mono ? 'courier' : 'helvetica', fontStyle);
+    this.doc.setFontSize(fontSize);
+    if (style.link) {
+      this.doc.setTextColor(0, 0, 238);
+    } else {
+      this.doc.setTextColor(0, 0, 0);
+    }
+  }
+
+  // Word-wrap runs of differently styled text into lines, keeping links clickable
+  paragraph(runs: TextRun[], fontSize = BODY_FONT_SIZE, indent = 0, prefix: string | null = null) {
+    // A run of exactly '\n' is a line break
+    const words = runs.flatMap((run) =>
+      run.text === '\n' ? [run] : run.text.split(/\s+/).filter(Boolean).map((word) => ({ ...run, text: word }))
+    );
+    if (!words.some((word) => word.text !== '\n')) return;
+
+    const lineHeight = fontSize * PT_TO_MM * 1.4;
+    const left = MARGIN_MM + indent;
+    const right = MARGIN_MM + this.contentWidth;
+    let x = left;
+    let baseline = 0;
+
+    const newLine = () => {
+      this.ensureSpace(lineHeight);
+      baseline = this.y + lineHeight * 0.75;
+      this.y += lineHeight;
+      x = left;
+    };
+
+    newLine();
+    if (prefix) {
+      this.setFont(PLAIN, fontSize);
+      this.doc.text(prefix, left - LIST_INDENT_MM + 1, baseline);
+    }
+
+    for (const word of words) {
+      if (word.text === '\n') {
+        newLine();
+        continue;
+      }
+      this.setFont(word, fontSize);
+      const spaceWidth = x > left ? this.doc.getTextWidth(' ') : 0;
+      // Words wider than a line are split over several lines
+      const pieces: string[] = this.doc.getTextWidth(word.text) > right - left
+        ? this.doc.splitTextToSize(word.text, right - left)
+        : [word.text];
+
+      for (const piece of pieces) {
+        const width = this.doc.getTextWidth(piece);
+        if (x > left && x + spaceWidth + width > right) {
+          newLine();
+        } else {
+          x += x > left ? spaceWidth : 0;
+        }
+        this.doc.text(piece, x, baseline);
+        if (word.link) {
+          this.doc.link(x, baseline - fontSize * PT_TO_MM, width, fontSize * PT_TO_MM * 1.2, { url: word.link });
+        }
+        x += width;
+      }
+    }
+    this.setFont(PLAIN, BODY_FONT_SIZE);
+  }
+
+  // Preformatted text keeps its line breaks and spacing
+  preformatted(text: string, indent = 0) {
+    this.setFont({ ...PLAIN, mono: true }, 9);
+    const lineHeight = 9 * PT_TO_MM * 1.3;
+    for (const line of text.replace(/\t/g, '    ').split('\n')) {
+      const wrapped: string[] = line ? this.doc.splitTextToSize(line, this.contentWidth - indent) : [''];
+      for (const piece of wrapped) {
+        this.ensureSpace(lineHeight);
+        this.doc.text(piece, MARGIN_MM + indent, this.y + lineHeight * 0.75);
+        this.y += lineHeight;
+      }
+    }
+    this.setFont(PLAIN, BODY_FONT_SIZE);
+  }
+
+  rule() {
+    this.ensureSpace(4);
+    this.y += 2;
+    this.doc.setDrawColor(180, 180, 180);
+    this.doc.line(MARGIN_MM, this.y, MARGIN_MM + this.contentWidth, this.y);
+    this.y += 2;
+  }
+
+  // A simple grid: equal column widths, wrapped cell text, header cells in bold
+  table(rows: { text: string; header: boolean }[][], indent = 0) {
+    const columns = rows.length > 0 ? Math.max(...rows.map((row) => row.length)) : 0;
+    if (columns === 0) return;
+
+    const fontSize = 8;
+    const lineHeight = fontSize * PT_TO_MM * 1.3;
+    const columnWidth = (this.contentWidth - indent) / columns;
+    this.doc.setDrawColor(160, 160, 160);
+
+    for (const row of rows) {
+      const cells = row.map((cell) => {
+        this.setFont({ ...PLAIN, bold: cell.header }, fontSize);
+        return { ...cell, lines: this.doc.splitTextToSize(cell.text || ' ', columnWidth - 2) as string[] };
+      });
+      const rowHeight = Math.max(...cells.map((cell) => cell.lines.length)) * lineHeight + 2;
+      this.ensureSpace(rowHeight);
+
+      cells.forEach((cell, column) => {
+        const x = MARGIN_MM + indent + column * columnWidth;
+        this.doc.rect(x, this.y, columnWidth, rowHeight);
+        this.setFont({ ...PLAIN, bold: cell.header }, fontSize);
+        cell.lines.forEach((line, index) => {
+          this.doc.text(line, x + 1, this.y + 1 + lineHeight * (index + 0.75));
+        });
+      });
+      this.y += rowHeight;
+    }
+    this.setFont(PLAIN, BODY_FONT_SIZE);
+  }
+}
+
+// Render a page as a PDF that keeps its structure: headings, paragraphs, nested lists, tables,
+// preformatted text and clickable links. Styles and images are not reproduced; images are
+// listed by their alt text and address.
+export function renderStructuredPdf(html: string, pageUrl: string, capturedAt: Date): ArrayBuffer {
+  const document = new DOMParser().parseFromString(html, 'text/html');
+  if (!document || !document.body) {
+    throw new Error('Failed to parse HTML document');
+  }
+
+  const writer = new PdfWriter();
+  const title = document.querySelector('title')?.textContent.trim();
+
+  // Header so a printed copy still says what it is
+  if (title) writer.paragraph([{ ...PLAIN, bold: true, text: title }], 14);
+  writer.paragraph([{ ...PLAIN, text: 'Captured from ' }, { ...PLAIN, link: pageUrl, text: pageUrl }], 8);
+  writer.paragraph([{ ...PLAIN, text: `on ${capturedAt.toISOString()}` }], 8);
+  writer.rule();
+
+  let runs: TextRun[] = [];
+
+  const collectInline = (node: Node, style: RunStyle) => {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+      runs.push({ ...style, text: node.textContent });
+      return;
+    }
+    if (node.nodeType !== NodeType.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    if (tag === 'br') {
+      runs.push({ ...style, text: '\n' });
+      return;
+    }
+    if (tag === 'img') {
+      const alt = element.getAttribute('alt')?.trim();
+      const src = resolveLink(element.getAttribute('src'), pageUrl);
+      runs.push({ ...style, italic: true, link: src, text: ` [Image${alt ? `: ${alt}` : ''}] ` });
+      return;
+    }
+
+    const childStyle: RunStyle = {
+      bold: style.bold || ['b', 'strong', 'th'].includes(tag),
+      italic: style.italic || ['i', 'em', 'cite'].includes(tag),
+      mono: style.mono || ['code', 'kbd', 'samp', 'tt'].includes(tag),
+      link: tag === 'a' ? resolveLink(element.getAttribute('href'), pageUrl) ?? style.link : style.link,
+    };
+    element.childNodes.forEach((child) => collectInline(child, childStyle));
+  };
+
+  const flush = (indent: number, fontSize = BODY_FONT_SIZE, prefix: string | null = null) => {
+    if (runs.some((run) => run.text.trim())) {
+      writer.paragraph(runs, fontSize, indent, prefix);
+      writer.space(1.5);
+    }
+    runs = [];
+  };
+
+  const isBlock = (node: Node) =>
+    node.nodeType === NodeType.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName.toLowerCase());
+
+  const renderNodes = (nodes: Node[], indent: number) => {
+    for (const child of nodes) {
+      if (child.nodeType !== NodeType.ELEMENT_NODE) {
+        collectInline(child, PLAIN);
+        continue;
+      }
+
+      const childElement = child as Element;
+      const tag = childElement.tagName.toLowerCase();
+      if (SKIPPED_TAGS.has(tag)) continue;
+      if (!BLOCK_TAGS.has(tag)) {
+        collectInline(childElement, PLAIN);
+        continue;
+      }
+
+      flush(indent);
+
+      if (tag in HEADING_FONT_SIZES) {
+        writer.space(2);
+        collectInline(childElement, { ...PLAIN, bold: true });
+        flush(indent, HEADING_FONT_SIZES[tag]);
+      } else if (tag === 'ul' || tag === 'ol') {
+        let number = Number(childElement.getAttribute('start')) || 1;
+        for (const item of Array.from(childElement.children)) {
+          if (item.tagName.toLowerCase() !== 'li') continue;
+          const prefix = tag === 'ol' ? `${number++}.` : '•';
+          renderListItem(item, indent + LIST_INDENT_MM, prefix);
+        }
+      } else if (tag === 'table') {
+        const rows = Array.from(childElement.querySelectorAll('tr') as Iterable<Element>)
+          .map((row) => Array.from(row.children)
+            .filter((cell) => ['td', 'th'].includes(cell.tagName.toLowerCase()))
+            .map((cell) => ({
+              text: cell.textContent.replace(/\s+/g, ' ').trim(),
+              header: cell.tagName.toLowerCase() === 'th',
+            })))
+          .filter((row) => row.length > 0);
+        writer.table(rows, indent);
+        writer.space(2);
+      } else if (tag === 'pre') {
+        writer.preformatted(childElement.textContent, indent);
+        writer.space(2);
+      } else if (tag === 'hr') {
+        writer.rule();
+      } else if (tag === 'blockquote' || tag === 'dd') {
+        renderNodes(Array.from(childElement.childNodes), indent + LIST_INDENT_MM);
+        flush(indent + LIST_INDENT_MM);
+      } else {
+        renderNodes(Array.from(childElement.childNodes), indent);
+        flush(indent);
+      }
+    }
+  };
+
+  // The marker goes on the first line of the item; nested blocks follow underneath
+  const renderListItem = (item: Element, indent: number, prefix: string) => {
+    const children = Array.from(item.childNodes);
+    const firstBlock = children.findIndex(isBlock);
+    const inline = firstBlock === -1 ? children : children.slice(0, firstBlock);
+
+    inline.forEach((child) => collectInline(child, PLAIN));
+    writer.paragraph(runs, BODY_FONT_SIZE, indent, prefix);
+    runs = [];
+
+    if (firstBlock !== -1) {
+      renderNodes(children.slice(firstBlock), indent);
+      flush(indent);
+    }
+    writer.space(0.5);
+  };
+
+  renderNodes(Array.from(document.body.childNodes), 0);
+  flush(0);
+
+  return writer.doc.output('arraybuffer');
+}
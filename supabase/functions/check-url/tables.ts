@@ -0,0 +1,91 @@
+import { Element } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+import { elementText } from "./text.ts";
+
+// A table as stored in content_snapshot_texts.tables. Spanning cells are repeated in every
+// row and column they cover, so each row has one value per column.
+export interface SnapshotTable {
+  caption: string | null;
+  // Text of the header row, empty when the table has none
+  headers: string[];
+  rows: string[][];
+}
+
+// The rows that belong to this table, leaving out the rows of tables nested in its cells
+function ownRows(table: Element): Element[] {
+  return (Array.from(table.querySelectorAll('tr')) as Element[]).filter((row) => {
+    let parent = row.parentElement;
+    while (parent && parent.tagName.toLowerCase() !== 'table') parent = parent.parentElement;
+    return parent === table;
+  });
+}
+
+const span = (cell: Element, attribute: string) =>
+  Math.min(Math.max(Number(cell.getAttribute(attribute)) || 1, 1), 100);
+
+// Lay the rows out on a grid, filling in what rowspan and colspan cells cover
+function toGrid(rows: Element[]): { cells: string[]; header: boolean }[] {
+  const grid: { cells: string[]; header: boolean }[] = [];
+  // Text still to be filled in by a rowspan cell above, by column
+  const carried: { text: string; rowsLeft: number }[] = [];
+
+  for (const row of rows) {
+    const cells: string[] = [];
+    const ownCells = (Array.from(row.children) as Element[])
+      .filter((cell) => ['td', 'th'].includes(cell.tagName.toLowerCase()));
+    const fillCarried = () => {
+      while ((carried[cells.length]?.rowsLeft ?? 0) > 0) {
+        carried[cells.length].rowsLeft--;
+        cells.push(carried[cells.length].text);
+      }
+    };
+
+    for (const cell of ownCells) {
+      fillCarried();
+      const text = elementText(cell);
+      const rowSpan = span(cell, 'rowspan');
+      for (let i = 0; i < span(cell, 'colspan'); i++) {
+        carried[cells.length] = { text, rowsLeft: rowSpan - 1 };
+        cells.push(text);
+      }
+    }
+    fillCarried();
+
+    if (cells.length > 0) {
+      const header = row.parentElement?.tagName.toLowerCase() === 'thead' ||
+        (ownCells.length > 0 && ownCells.every((cell) => cell.tagName.toLowerCase() === 'th'));
+      grid.push({ cells, header });
+    }
+  }
+
+  return grid;
+}
+
+// Extract every table inside the given elements as rows and columns
+export function extractTables(roots: Element[]): SnapshotTable[] {
+  const tables: SnapshotTable[] = [];
+
+  for (const root of roots) {
+    const found = root.tagName.toLowerCase() === 'table'
+      ? [root, ...(Array.from(root.querySelectorAll('table')) as Element[])]
+      : Array.from(root.querySelectorAll('table')) as Element[];
+
+    for (const table of found) {
+      const grid = toGrid(ownRows(table));
+      if (grid.length === 0) continue;
+
+      const caption = (Array.from(table.children) as Element[])
+        .find((child) => child.tagName.toLowerCase() === 'caption');
+      const headers = grid[0].header ? grid[0].cells : [];
+      const width = Math.max(...grid.map((row) => row.cells.length));
+
+      tables.push({
+        caption: caption ? elementText(caption) || null : null,
+        headers: headers.length > 0 ? [...headers, ...Array(width - headers.length).fill('')] : [],
+        rows: grid.slice(headers.length > 0 ? 1 : 0)
+          .map((row) => [...row.cells, ...Array(width - row.cells.length).fill('')]),
+      });
+    }
+  }
+
+  return tables;
+}
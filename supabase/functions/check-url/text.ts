@@ -0,0 +1,31 @@
+import { Element, Node, NodeType } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+
+// Elements whose content never runs on into the text around them. textContent joins adjacent
+// text nodes as they are, so "<td>4.00%</td><td>5.00%</td>" would read as "4.00%5.00%".
+const BOUNDARY_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'caption', 'dd', 'details', 'dialog', 'div', 'dl', 'dt',
+  'fieldset', 'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr',
+  'img', 'input', 'li', 'main', 'nav', 'ol', 'option', 'p', 'pre', 'section', 'select', 'summary', 'table',
+  'tbody', 'td', 'textarea', 'tfoot', 'th', 'thead', 'tr', 'ul',
+]);
+
+// The text of an element with whitespace at block and cell boundaries, normalized to single spaces
+export function elementText(root: Element): string {
+  const parts: string[] = [];
+
+  const walk = (node: Node) => {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+      parts.push(node.textContent);
+      return;
+    }
+    if (node.nodeType !== NodeType.ELEMENT_NODE) return;
+
+    const boundary = BOUNDARY_TAGS.has((node as Element).tagName.toLowerCase());
+    if (boundary) parts.push(' ');
+    node.childNodes.forEach(walk);
+    if (boundary) parts.push(' ');
+  };
+  walk(root);
+
+  return parts.join('').replace(/\s+/g, ' ').trim();
+}
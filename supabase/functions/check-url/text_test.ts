@@ -0,0 +1,24 @@
+// Tests for element text extraction. Run with:
+//   deno test --allow-net supabase/functions/check-url/text_test.ts
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { DOMParser } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+import { elementText } from "./text.ts";
+
+const textOf = (html: string) =>
+  elementText(new DOMParser().parseFromString(html, 'text/html')!.body);
+
+Deno.test('separates table cells and rows', () => {
+  assertEquals(
+    textOf('<table><tr><th>Term</th><th>Rate</th></tr><tr><td>1 year</td><td>4.00%</td><td>5.00%</td></tr></table>'),
+    'Term Rate 1 year 4.00% 5.00%',
+  );
+});
+
+Deno.test('separates blocks and line breaks', () => {
+  assertEquals(textOf('<div><p>First</p><p>Second</p></div><ul><li>a</li><li>b</li></ul>Line<br>break'),
+    'First Second a b Line break');
+});
+
+Deno.test('keeps inline markup inside words', () => {
+  assertEquals(textOf('<p>Rate: <b>4</b>.25%, <a href="#">see <em>terms</em></a></p>'), 'Rate: 4.25%, see terms');
+});
@@ -0,0 +1,66 @@
+import tls from "node:tls";
+
+const TLS_INSPECT_TIMEOUT_MS = 10000;
+
+export interface CertificateInfo {
+  issuer: string | null;
+  expiresAt: Date;
+}
+
+// Read the leaf certificate of an HTTPS endpoint. fetch() does not expose it, so this opens a
+// separate TLS connection; returns null when the runtime or the server does not give us a certificate.
+export function inspectCertificate(url: string): Promise<CertificateInfo | null> {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return Promise.resolve(null);
+  }
+  if (target.protocol !== 'https:') return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    try {
+      let settled = false;
+      const finish = (info: CertificateInfo | null) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        socket.destroy();
+        resolve(info);
+      };
+
+      const socket = tls.connect({
+        host: target.hostname,
+        port: Number(target.port) || 443,
+        servername: target.hostname,
+        // We only want to read the certificate, even an invalid one; fetch already judged validity
+        rejectUnauthorized: false,
+      });
+      const timer = setTimeout(() => finish(null), TLS_INSPECT_TIMEOUT_MS);
+
+      socket.once('secureConnect', () => {
+        try {
+          const certificate = socket.getPeerCertificate();
+          const expiresAt = certificate?.valid_to ? new Date(certificate.valid_to) : null;
+          if (!expiresAt || Number.isNaN(expiresAt.getTime())) {
+            finish(null);
+            return;
+          }
+          const issuer = certificate.issuer?.O || certificate.issuer?.CN || null;
+          finish({ issuer: Array.isArray(issuer) ? issuer.join(', ') : issuer, expiresAt });
+        } catch (error) {
+          console.warn('Certificate details unavailable:', error);
+          finish(null);
+        }
+      });
+      socket.once('error', (error) => {
+        console.warn('Certificate inspection failed:', error);
+        finish(null);
+      });
+    } catch (error) {
+      // Runtimes without node:tls support end up here
+      console.warn('Certificate inspection unavailable:', error);
+      resolve(null);
+    }
+  });
+}
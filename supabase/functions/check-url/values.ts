@@ -0,0 +1,118 @@
+import { Element } from "https://deno.land/x/deno_dom@v0.1.45/deno-dom-wasm.ts";
+import { elementText } from "./text.ts";
+import { patternProblem } from "../_shared/patterns.ts";
+
+// A row of value_watchers
+export interface ValueWatcher {
+  id: string;
+  name: string;
+  extractor: 'selector' | 'regex';
+  pattern: string;
+  alert_rule: 'changed' | 'crosses_above' | 'crosses_below' | 'crosses' | 'moves_bps' | null;
+  // The threshold for the crosses rules, the number of basis points for moves_bps
+  alert_value: number | null;
+}
+
+export interface ExtractedValue {
+  value: number | null;
+  // The text the number was read from
+  matchedText: string | null;
+  error: string | null;
+}
+
+// Read the first number in a piece of text: "4.25% APY" → 4.25, "$1,250.00" → 1250, "3,5 %" → 3.5.
+// Commas followed by exactly three digits are thousands separators, any other comma is a decimal point.
+export function parseNumber(text: string): number | null {
+  const match = text.match(/[-−]?\d[\d,]*(?:\.\d+)?/);
+  if (!match) return null;
+
+  let number = match[0].replace('−', '-');
+  number = /,\d{3}(?!\d)/.test(number) ? number.replace(/,/g, '') : number.replace(',', '.');
+  const value = Number(number);
+  return Number.isFinite(value) ? value : null;
+}
+
+// The first element matching the selector within the given elements, which may match it themselves
+function firstMatch(roots: Element[], selector: string): Element | null {
+  for (const root of roots) {
+    const candidates = root.parentElement ? Array.from(root.parentElement.querySelectorAll(selector)) : [];
+    if (candidates.includes(root)) return root;
+    const inner = root.querySelector(selector);
+    if (inner) return inner;
+  }
+  return null;
+}
+
+// Extract the value of every watcher from a check's content. Selectors read the first matching
+// element of the monitored part of the page, the same elements the clean text comes from; regexes
+// are matched against the clean text, using the first capture group if there is one. Scope returns
+// those elements, or null when the page is not HTML, and is only called when a selector needs it.
+export function extractWatchedValues(
+  watchers: ValueWatcher[],
+  scope: () => Element[] | null,
+  cleanText: string,
+): ExtractedValue[] {
+  let roots: Element[] | null | undefined;
+
+  return watchers.map((watcher) => {
+    try {
+      let matchedText: string | null;
+      if (watcher.extractor === 'selector') {
+        if (roots === undefined) roots = scope();
+        if (roots === null) {
+          return { value: null, matchedText: null, error: 'Selectors only work on HTML pages' };
+        }
+        let element;
+        try {
+          element = firstMatch(roots, watcher.pattern);
+        } catch {
+          return { value: null, matchedText: null, error: `Invalid CSS selector: ${watcher.pattern}` };
+        }
+        matchedText = element ? elementText(element) : null;
+      } else {
+        // The dialog refuses unsafe patterns, but rows can be written without it
+        const problem = patternProblem(watcher.pattern);
+        if (problem) {
+          return { value: null, matchedText: null, error: `${problem}: ${watcher.pattern}` };
+        }
+        const match = cleanText.match(new RegExp(watcher.pattern));
+        matchedText = match ? match[1] ?? match[0] : null;
+      }
+
+      if (matchedText === null) {
+        return { value: null, matchedText: null, error: 'Pattern did not match' };
+      }
+      const value = parseNumber(matchedText);
+      return { value, matchedText, error: value === null ? 'No number in the matched text' : null };
+    } catch (error) {
+      return { value: null, matchedText: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+}
+
+// The alert message when a new value triggers the watcher's rule, or null. Rules are edge-triggered:
+// a value that stays below a threshold alerts once, when it crosses it.
+export function evaluateValueRule(watcher: ValueWatcher, previous: number | null, current: number | null): string | null {
+  if (!watcher.alert_rule || previous === null || current === null) return null;
+
+  const threshold = watcher.alert_value ?? 0;
+  const change = `${previous} → ${current}`;
+
+  switch (watcher.alert_rule) {
+    case 'changed':
+      return previous !== current ? `${watcher.name} changed (${change})` : null;
+    case 'crosses_above':
+      return previous <= threshold && current > threshold ? `${watcher.name} rose above ${threshold} (${change})` : null;
+    case 'crosses_below':
+      return previous >= threshold && current < threshold ? `${watcher.name} fell below ${threshold} (${change})` : null;
+    case 'crosses':
+      if (previous <= threshold && current > threshold) return `${watcher.name} rose above ${threshold} (${change})`;
+      if (previous >= threshold && current < threshold) return `${watcher.name} fell below ${threshold} (${change})`;
+      return null;
+    case 'moves_bps': {
+      // Values are read as shown, so for a rate of 4.25% one basis point is 0.01; rounding avoids float noise
+      const movedBps = Math.round(Math.abs(current - previous) * 100 * 1e6) / 1e6;
+      return movedBps > threshold ? `${watcher.name} moved ${movedBps} bps (${change})` : null;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { decode } from "https://esm.sh/fast-png@6.2.0";
+// Keep in step with the pixelmatch version in package.json, which the dashboard diff uses
+import pixelmatch from "https://esm.sh/pixelmatch@5.3.0";
+
+// Full-page screenshots can be very tall; only the top of the page is compared to bound memory use
+const MAX_COMPARE_HEIGHT = 6000;
+
+interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Decode a PNG into 8-bit RGBA, cropped to MAX_COMPARE_HEIGHT
+function decodeRgba(png: Uint8Array): RgbaImage {
+  const image = decode(png);
+  if (image.depth !== 8 || (image.channels !== 3 && image.channels !== 4)) {
+    throw new Error(`Unsupported screenshot format: ${image.channels} channels at ${image.depth} bits`);
+  }
+
+  const height = Math.min(image.height, MAX_COMPARE_HEIGHT);
+  const data = new Uint8ClampedArray(image.width * height * 4);
+  for (let pixel = 0; pixel < image.width * height; pixel++) {
+    for (let channel = 0; channel < 3; channel++) {
+      data[pixel * 4 + channel] = image.data[pixel * image.channels + channel];
+    }
+    data[pixel * 4 + 3] = image.channels === 4 ? image.data[pixel * 4 + 3] : 255;
+  }
+  return { width: image.width, height, data };
+}
+
+// Place an image on a transparent canvas of the given size, so pages of different sizes line up at the top left
+function padTo(image: RgbaImage, width: number, height: number): Uint8ClampedArray {
+  if (image.width === width && image.height === height) return image.data;
+
+  const padded = new Uint8ClampedArray(width * height * 4);
+  for (let row = 0; row < image.height; row++) {
+    padded.set(image.data.subarray(row * image.width * 4, (row + 1) * image.width * 4), row * width * 4);
+  }
+  return padded;
+}
+
+// Share of pixels (0-1) that differ between two PNG screenshots. Tolerance is pixelmatch's
+// threshold: 0 counts any colour difference, higher values ignore smaller ones.
+// Area that only one of the screenshots covers is compared against blank (white) page.
+export function computeVisualChange(previous: Uint8Array, current: Uint8Array, tolerance: number): number {
+  const before = decodeRgba(previous);
+  const after = decodeRgba(current);
+  const width = Math.max(before.width, after.width);
+  const height = Math.max(before.height, after.height);
+  if (width === 0 || height === 0) return 0;
+
+  const changedPixels = pixelmatch(
+    padTo(before, width, height),
+    padTo(after, width, height),
+    null,
+    width,
+    height,
+    { threshold: tolerance },
+  );
+  return changedPixels / (width * height);
+}
@@ -0,0 +1,206 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { strToU8, zipSync } from "https://esm.sh/fflate@0.8.2";
+import { canonicalEvidence, sha256Hex } from "../_shared/evidence.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Bundle one snapshot as evidence: the raw body, the stored file, extracted text, response headers,
+// every hash and timestamp, and the canonical record its chain hash was computed over
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const { snapshotId } = await req.json();
+
+    if (!snapshotId) {
+      throw new Error('snapshotId is required');
+    }
+
+    const { data: snapshot, error: snapshotError } = await supabaseClient
+      .from('content_snapshots')
+      .select('*, monitored_urls(url, name)')
+      .eq('id', snapshotId)
+      .single();
+
+    if (snapshotError || !snapshot) {
+      throw new Error(`Snapshot not found: ${snapshotError?.message}`);
+    }
+
+    // Heartbeats prove the content was still served; the content itself lives on their source
+    const contentSnapshotId: string = snapshot.heartbeat && snapshot.source_snapshot_id
+      ? snapshot.source_snapshot_id
+      : snapshot.id;
+
+    const { data: contentSnapshot } = contentSnapshotId === snapshot.id
+      ? { data: snapshot }
+      : await supabaseClient
+          .from('content_snapshots')
+          .select('id, created_at, pdf_file_path, pdf_render_method, file_sha256, raw_body_path, raw_sha256, screenshot_path, content_text, content_hash, chain_hash')
+          .eq('id', contentSnapshotId)
+          .maybeSingle();
+
+    const files: Record<string, Uint8Array> = {};
+    const warnings: string[] = [];
+
+    const { data: text } = await supabaseClient
+      .from('content_snapshot_texts')
+      .select('full_text')
+      .eq('snapshot_id', contentSnapshotId)
+      .maybeSingle();
+
+    const fullText = text?.full_text ?? contentSnapshot?.content_text ?? null;
+    if (fullText !== null) {
+      files['text.txt'] = strToU8(fullText);
+      if (!text) warnings.push('Only the 10,000 character preview of the text was stored');
+    }
+
+    let storedFile: {
+      name: string;
+      renderMethod: string | null;
+      sha256: string;
+      matchesRecordedHash: boolean | null;
+    } | null = null;
+    if (contentSnapshot?.pdf_file_path) {
+      const { data: file, error: downloadError } = await supabaseClient.storage
+        .from('content-pdfs')
+        .download(contentSnapshot.pdf_file_path);
+
+      if (downloadError || !file) {
+        warnings.push(`Stored file ${contentSnapshot.pdf_file_path} could not be read`);
+      } else {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const name = `file/${contentSnapshot.pdf_file_path.split('/').pop()}`;
+        const sha256 = await sha256Hex(bytes);
+        files[name] = bytes;
+        storedFile = {
+          name,
+          renderMethod: contentSnapshot.pdf_render_method ?? null,
+          sha256,
+          matchesRecordedHash: contentSnapshot.file_sha256 ? sha256 === contentSnapshot.file_sha256 : null,
+        };
+      }
+    }
+
+    let rawBody: { name: string; sha256: string; matchesRecordedHash: boolean | null } | null = null;
+    if (contentSnapshot?.raw_body_path) {
+      const { data: body, error: downloadError } = await supabaseClient.storage
+        .from('content-pdfs')
+        .download(contentSnapshot.raw_body_path);
+
+      if (downloadError || !body) {
+        warnings.push(`Raw body ${contentSnapshot.raw_body_path} could not be read`);
+      } else {
+        const bytes = new Uint8Array(await body.arrayBuffer());
+        const name = `raw/${contentSnapshot.raw_body_path.split('/').pop()}`;
+        const sha256 = await sha256Hex(bytes);
+        files[name] = bytes;
+        rawBody = {
+          name,
+          sha256,
+          matchesRecordedHash: contentSnapshot.raw_sha256 ? sha256 === contentSnapshot.raw_sha256 : null,
+        };
+      }
+    } else if (contentSnapshot) {
+      warnings.push('No raw body was stored for this snapshot');
+    }
+
+    let screenshotFile: { name: string; sha256: string } | null = null;
+    if (contentSnapshot?.screenshot_path) {
+      const { data: image, error: downloadError } = await supabaseClient.storage
+        .from('content-pdfs')
+        .download(contentSnapshot.screenshot_path);
+
+      if (downloadError || !image) {
+        warnings.push(`Screenshot ${contentSnapshot.screenshot_path} could not be read`);
+      } else {
+        const bytes = new Uint8Array(await image.arrayBuffer());
+        const name = `screenshot/${contentSnapshot.screenshot_path.split('/').pop()}`;
+        files[name] = bytes;
+        screenshotFile = { name, sha256: await sha256Hex(bytes) };
+      }
+    }
+
+    if (snapshot.response_headers) {
+      files['headers.json'] = strToU8(JSON.stringify(snapshot.response_headers, null, 2));
+    }
+
+    const manifest = {
+      exportedAt: new Date().toISOString(),
+      url: snapshot.monitored_urls?.url ?? null,
+      name: snapshot.monitored_urls?.name ?? null,
+      snapshot: {
+        id: snapshot.id,
+        capturedAt: snapshot.created_at,
+        checkFailed: snapshot.check_failed,
+        heartbeat: snapshot.heartbeat,
+        notModified: snapshot.not_modified,
+        statusCode: snapshot.status_code,
+        finalUrl: snapshot.final_url,
+        redirectChain: snapshot.redirect_chain,
+        responseTimeMs: snapshot.response_time_ms,
+        tlsIssuer: snapshot.tls_issuer,
+        tlsExpiresAt: snapshot.tls_expires_at,
+        // What this check itself received: null for a 304, and for a heartbeat not the bytes in raw/,
+        // which belong to the content snapshot. This is the hash the chain record covers.
+        observedRawBodySha256: snapshot.raw_sha256,
+      },
+      contentSnapshot: contentSnapshotId === snapshot.id ? null : {
+        id: contentSnapshotId,
+        capturedAt: contentSnapshot?.created_at ?? null,
+        chainHash: contentSnapshot?.chain_hash ?? null,
+      },
+      hashes: {
+        algorithm: 'SHA-256',
+        // Hashes of the bundled files, all taken from the snapshot that stored them
+        rawBody: contentSnapshot?.raw_sha256 ?? null,
+        text: contentSnapshot?.content_hash ?? null,
+        file: contentSnapshot?.file_sha256 ?? null,
+      },
+      rawBody,
+      storedFile,
+      screenshot: screenshotFile,
+      chain: snapshot.chain_hash
+        ? {
+            chainHash: snapshot.chain_hash,
+            previousSnapshotId: snapshot.previous_snapshot_id,
+            previousChainHash: snapshot.previous_chain_hash,
+            // chainHash is the SHA-256 of this exact string
+            canonicalRecord: canonicalEvidence(snapshot),
+          }
+        : null,
+      warnings,
+    };
+
+    files['manifest.json'] = strToU8(JSON.stringify(manifest, null, 2));
+
+    const fileName = `evidence_${snapshot.id}.zip`;
+    return new Response(zipSync(files), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error in export-evidence function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -0,0 +1,258 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { planRetention, RetentionPolicy, RetentionSnapshot } from "./retention.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const PAGE_SIZE = 1000;
+const DELETE_BATCH_SIZE = 100;
+
+interface UrlReport {
+  urlId: string;
+  url: string;
+  policyId: string;
+  scope: 'url' | 'global';
+  dryRun: boolean;
+  onLegalHold: boolean;
+  heldSnapshots: number;
+  totalSnapshots: number;
+  keptSnapshots: number;
+  deletedSnapshots: number;
+  deletedFiles: number;
+  oldestDeletedAt: string | null;
+  newestDeletedAt: string | null;
+  errors: string[];
+}
+
+// Every stored file a snapshot owns
+const snapshotFiles = (snapshot: Pick<RetentionSnapshot, 'pdf_file_path' | 'raw_body_path' | 'screenshot_path'>): string[] =>
+  [snapshot.pdf_file_path, snapshot.raw_body_path, snapshot.screenshot_path].filter((path): path is string => !!path);
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) => items.slice(i * size, (i + 1) * size));
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    // Scheduled runs send no body and follow each policy's dry_run flag;
+    // the dashboard asks for { dryRun: true } to preview a run
+    const body = await req.json().catch(() => ({}));
+    const forceDryRun = body.dryRun === true;
+    const onlyUrlId: string | undefined = body.urlId;
+
+    const { data: policies, error: policyError } = await supabaseClient
+      .from('retention_policies')
+      .select('*');
+
+    if (policyError) {
+      throw new Error(`Policy query error: ${policyError.message}`);
+    }
+
+    const globalPolicy = (policies || []).find((policy) => policy.monitored_url_id === null) as RetentionPolicy | undefined;
+    const urlPolicies = new Map(
+      (policies || [])
+        .filter((policy) => policy.monitored_url_id !== null)
+        .map((policy) => [policy.monitored_url_id, policy as RetentionPolicy]),
+    );
+
+    // Held snapshots are never pruned; the database would refuse the delete anyway
+    const { data: holds, error: holdError } = await supabaseClient
+      .from('legal_holds')
+      .select('scope, monitored_url_id, snapshot_id')
+      .is('lifted_at', null);
+
+    if (holdError) {
+      throw new Error(`Legal hold query error: ${holdError.message}`);
+    }
+
+    const heldUrlIds = new Set((holds || []).filter((hold) => hold.scope === 'url').map((hold) => hold.monitored_url_id));
+    const heldSnapshotIds = new Set(
+      (holds || []).filter((hold) => hold.scope === 'snapshot' && hold.snapshot_id).map((hold) => hold.snapshot_id as string),
+    );
+
+    let urlQuery = supabaseClient.from('monitored_urls').select('id, url');
+    if (onlyUrlId) urlQuery = urlQuery.eq('id', onlyUrlId);
+    const { data: urls, error: urlError } = await urlQuery;
+
+    if (urlError) {
+      throw new Error(`URL query error: ${urlError.message}`);
+    }
+
+    const reports: UrlReport[] = [];
+
+    for (const monitoredUrl of urls || []) {
+      const policy = urlPolicies.get(monitoredUrl.id) ?? globalPolicy;
+      if (!policy) continue;
+
+      const snapshots: RetentionSnapshot[] = [];
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data: page, error: snapshotError } = await supabaseClient
+          .from('content_snapshots')
+          .select('id, created_at, alert_triggered, pdf_file_path, raw_body_path, screenshot_path, source_snapshot_id, chain_hash')
+          .eq('monitored_url_id', monitoredUrl.id)
+          .order('created_at', { ascending: false })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (snapshotError) {
+          throw new Error(`Snapshot query error: ${snapshotError.message}`);
+        }
+        snapshots.push(...(page || []));
+        if (!page || page.length < PAGE_SIZE) break;
+      }
+
+      const onLegalHold = heldUrlIds.has(monitoredUrl.id);
+      const pinnedIds = onLegalHold
+        ? new Set(snapshots.map((snapshot) => snapshot.id))
+        : new Set(snapshots.filter((snapshot) => heldSnapshotIds.has(snapshot.id)).map((snapshot) => snapshot.id));
+      const plan = planRetention(snapshots, policy, new Date(), pinnedIds);
+      const dryRun = forceDryRun || policy.dry_run;
+      const report: UrlReport = {
+        urlId: monitoredUrl.id,
+        url: monitoredUrl.url,
+        policyId: policy.id,
+        scope: policy.monitored_url_id ? 'url' : 'global',
+        dryRun,
+        onLegalHold,
+        heldSnapshots: pinnedIds.size,
+        totalSnapshots: snapshots.length,
+        keptSnapshots: plan.keep.length,
+        deletedSnapshots: plan.delete.length,
+        deletedFiles: plan.delete.reduce((total, snapshot) => total + snapshotFiles(snapshot).length, 0),
+        oldestDeletedAt: plan.delete[plan.delete.length - 1]?.created_at ?? null,
+        newestDeletedAt: plan.delete[0]?.created_at ?? null,
+        errors: [],
+      };
+      reports.push(report);
+
+      if (dryRun || plan.delete.length === 0) continue;
+
+      console.log(`Pruning ${plan.delete.length} of ${snapshots.length} snapshots for ${monitoredUrl.url}`);
+
+      // Rows first: a failed row delete must not leave rows pointing at files that are gone
+      const deletedSnapshots: RetentionSnapshot[] = [];
+      for (const batch of chunk(plan.delete, DELETE_BATCH_SIZE)) {
+        // Log chained snapshots before they go, so the gaps they leave verify as pruned
+        const chained = batch.filter((snapshot) => snapshot.chain_hash);
+        if (chained.length > 0) {
+          const { error: logError } = await supabaseClient
+            .from('pruned_snapshots')
+            .upsert(chained.map((snapshot) => ({
+              snapshot_id: snapshot.id,
+              monitored_url_id: monitoredUrl.id,
+              chain_hash: snapshot.chain_hash,
+              snapshot_created_at: snapshot.created_at,
+            })));
+
+          if (logError) {
+            report.errors.push(`Failed to log pruned snapshots: ${logError.message}`);
+            continue;
+          }
+        }
+
+        const { error: deleteError } = await supabaseClient
+          .from('content_snapshots')
+          .delete()
+          .in('id', batch.map((snapshot) => snapshot.id));
+
+        if (deleteError) {
+          report.errors.push(`Failed to delete snapshots: ${deleteError.message}`);
+          // The snapshots are still there, so they must not be accounted for as pruned
+          if (chained.length > 0) {
+            await supabaseClient.from('pruned_snapshots').delete().in('snapshot_id', chained.map((snapshot) => snapshot.id));
+          }
+          continue;
+        }
+        deletedSnapshots.push(...batch);
+      }
+      report.deletedSnapshots = deletedSnapshots.length;
+
+      // Then the files of deleted rows, unless another row still uses the same file
+      const candidatePaths = [...new Set(
+        deletedSnapshots
+          .flatMap(snapshotFiles),
+      )];
+      let deletedFiles = 0;
+
+      for (const batch of chunk(candidatePaths, DELETE_BATCH_SIZE)) {
+        const pathList = batch.map((path) => `"${path}"`).join(',');
+        const { data: stillUsed, error: usageError } = await supabaseClient
+          .from('content_snapshots')
+          .select('pdf_file_path, raw_body_path, screenshot_path')
+          .or(`pdf_file_path.in.(${pathList}),raw_body_path.in.(${pathList}),screenshot_path.in.(${pathList})`);
+
+        if (usageError) {
+          report.errors.push(`Failed to check file usage: ${usageError.message}`);
+          continue;
+        }
+
+        const usedPaths = new Set((stillUsed || []).flatMap(snapshotFiles));
+        const unusedPaths = batch.filter((path) => !usedPaths.has(path));
+        if (unusedPaths.length === 0) continue;
+
+        const { error: removeError } = await supabaseClient.storage
+          .from('content-pdfs')
+          .remove(unusedPaths);
+
+        if (removeError) {
+          report.errors.push(`Failed to delete files: ${removeError.message}`);
+          continue;
+        }
+        deletedFiles += unusedPaths.length;
+      }
+      report.deletedFiles = deletedFiles;
+    }
+
+    const applied = reports.filter((report) => !report.dryRun);
+    const snapshotsDeleted = applied.reduce((total, report) => total + report.deletedSnapshots, 0);
+    const filesDeleted = applied.reduce((total, report) => total + report.deletedFiles, 0);
+
+    const { data: run, error: runError } = await supabaseClient
+      .from('retention_runs')
+      .insert({
+        dry_run: applied.length === 0,
+        snapshots_deleted: snapshotsDeleted,
+        files_deleted: filesDeleted,
+        report: reports,
+      })
+      .select('id')
+      .single();
+
+    if (runError) {
+      console.error('Error saving retention run:', runError);
+    }
+
+    console.log(`Retention run: ${reports.length} URLs, ${snapshotsDeleted} snapshots and ${filesDeleted} files deleted`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        runId: run?.id ?? null,
+        snapshotsDeleted,
+        filesDeleted,
+        reports,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in prune-snapshots function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
@@ -0,0 +1,89 @@
+export interface RetentionPolicy {
+  id: string;
+  monitored_url_id: string | null;
+  // Always keep this many of the newest snapshots; null keeps every snapshot inside the rollup window
+  keep_last_n: number | null;
+  // Keep every snapshot that raised a yellow or red alert
+  keep_alerts: boolean;
+  // Older snapshots are thinned to one per rollup interval; null never thins
+  rollup_after_days: number | null;
+  rollup_interval: 'daily' | 'weekly';
+  // Only report what would be deleted
+  dry_run: boolean;
+}
+
+export interface RetentionSnapshot {
+  id: string;
+  created_at: string;
+  alert_triggered: string | null;
+  pdf_file_path: string | null;
+  raw_body_path: string | null;
+  screenshot_path: string | null;
+  source_snapshot_id: string | null;
+  // Logged when the snapshot is pruned, so verify-chain can tell the gap from a deletion
+  chain_hash: string | null;
+}
+
+export interface RetentionPlan {
+  keep: RetentionSnapshot[];
+  delete: RetentionSnapshot[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Bucket key of the UTC day, or of the UTC week starting on Monday
+const rollupBucket = (createdAt: Date, interval: 'daily' | 'weekly') => {
+  const day = Math.floor(createdAt.getTime() / DAY_MS);
+  // Day 0 (1970-01-01) was a Thursday
+  return interval === 'daily' ? day : Math.floor((day + 3) / 7);
+};
+
+// Decide which of a URL's snapshots a policy keeps. A snapshot is kept when any rule keeps it:
+// it is among the newest keep_last_n (or inside the rollup window when keep_last_n is unset),
+// it raised an alert and keep_alerts is set, it is the newest snapshot of its rollup bucket once
+// older than rollup_after_days, it is pinned (e.g. under legal hold), or a kept heartbeat still points at it.
+export function planRetention(
+  snapshots: RetentionSnapshot[],
+  policy: RetentionPolicy,
+  now = new Date(),
+  pinnedIds: Set<string> = new Set(),
+): RetentionPlan {
+  const newestFirst = [...snapshots].sort(
+    (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime(),
+  );
+  const rollupCutoff = policy.rollup_after_days === null
+    ? null
+    : now.getTime() - policy.rollup_after_days * DAY_MS;
+
+  const keptIds = new Set<string>();
+  const seenBuckets = new Set<number>();
+
+  newestFirst.forEach((snapshot, index) => {
+    const createdAt = new Date(snapshot.created_at);
+    const recent = rollupCutoff === null || createdAt.getTime() >= rollupCutoff;
+
+    const keptByCount = policy.keep_last_n !== null ? index < policy.keep_last_n : recent;
+    const keptAsAlert = policy.keep_alerts && (snapshot.alert_triggered === 'yellow' || snapshot.alert_triggered === 'red');
+
+    let keptAsRollup = false;
+    if (!recent) {
+      const bucket = rollupBucket(createdAt, policy.rollup_interval);
+      keptAsRollup = !seenBuckets.has(bucket);
+      seenBuckets.add(bucket);
+    }
+
+    if (keptByCount || keptAsAlert || keptAsRollup || pinnedIds.has(snapshot.id)) keptIds.add(snapshot.id);
+  });
+
+  // Heartbeats have no content of their own, so their source has to outlive them
+  for (const snapshot of newestFirst) {
+    if (keptIds.has(snapshot.id) && snapshot.source_snapshot_id) {
+      keptIds.add(snapshot.source_snapshot_id);
+    }
+  }
+
+  return {
+    keep: newestFirst.filter((snapshot) => keptIds.has(snapshot.id)),
+    delete: newestFirst.filter((snapshot) => !keptIds.has(snapshot.id)),
+  };
+}
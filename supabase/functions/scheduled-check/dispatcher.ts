@@ -0,0 +1,89 @@
+export interface DispatchTask<T> {
+  id: string;
+  // Tasks sharing a host count towards the same per-host limit
+  host: string;
+  run: (signal: AbortSignal) => Promise<T>;
+}
+
+export interface DispatchOptions {
+  maxConcurrency: number;
+  perHostConcurrency: number;
+  // Nothing new is started after this many milliseconds, and running tasks are aborted
+  timeBudgetMs: number;
+}
+
+export type DispatchOutcome<T> =
+  | { id: string; status: 'succeeded'; value: T }
+  | { id: string; status: 'failed'; error: string };
+
+export interface DispatchSummary<T> {
+  dispatched: number;
+  succeeded: number;
+  failed: number;
+  deferred: number;
+  outcomes: DispatchOutcome<T>[];
+  deferredIds: string[];
+}
+
+// Run tasks with a global and a per-host concurrency limit inside a fixed time budget.
+// Tasks that could not be started before the budget ran out are returned as deferred.
+export async function dispatchBounded<T>(
+  tasks: DispatchTask<T>[],
+  options: DispatchOptions,
+): Promise<DispatchSummary<T>> {
+  const deadline = Date.now() + options.timeBudgetMs;
+  const pending = [...tasks];
+  const running = new Set<Promise<void>>();
+  const activePerHost = new Map<string, number>();
+  const outcomes: DispatchOutcome<T>[] = [];
+
+  const launch = (task: DispatchTask<T>) => {
+    activePerHost.set(task.host, (activePerHost.get(task.host) || 0) + 1);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), Math.max(0, deadline - Date.now()));
+
+    const execution: Promise<void> = task.run(controller.signal)
+      .then(
+        (value) => { outcomes.push({ id: task.id, status: 'succeeded', value }); },
+        (error) => {
+          const message = controller.signal.aborted
+            ? 'Time budget exceeded'
+            : error instanceof Error ? error.message : 'Unknown error';
+          outcomes.push({ id: task.id, status: 'failed', error: message });
+        },
+      )
+      .finally(() => {
+        clearTimeout(timer);
+        activePerHost.set(task.host, (activePerHost.get(task.host) || 1) - 1);
+        running.delete(execution);
+      });
+
+    running.add(execution);
+  };
+
+  while (pending.length > 0 || running.size > 0) {
+    if (Date.now() < deadline) {
+      // Start the earliest pending tasks whose host still has a free slot
+      for (let i = 0; i < pending.length && running.size < options.maxConcurrency;) {
+        if ((activePerHost.get(pending[i].host) || 0) < options.perHostConcurrency) {
+          launch(pending.splice(i, 1)[0]);
+        } else {
+          i++;
+        }
+      }
+    }
+
+    if (running.size === 0) break;
+    await Promise.race(running);
+  }
+
+  return {
+    dispatched: outcomes.length,
+    succeeded: outcomes.filter((outcome) => outcome.status === 'succeeded').length,
+    failed: outcomes.filter((outcome) => outcome.status === 'failed').length,
+    deferred: pending.length,
+    outcomes,
+    deferredIds: pending.map((task) => task.id),
+  };
+}
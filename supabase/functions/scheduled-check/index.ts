@@ -1,11 +1,35 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { dispatchBounded } from "./dispatcher.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Dispatcher limits, overridable per deployment
+const MAX_CONCURRENCY = Number(Deno.env.get('SCHEDULED_CHECK_CONCURRENCY') ?? 5);
+const PER_HOST_CONCURRENCY = Number(Deno.env.get('SCHEDULED_CHECK_PER_HOST_CONCURRENCY') ?? 1);
+// Stay well inside the edge function wall-clock limit; leftovers stay queued for the next run
+const TIME_BUDGET_MS = Number(Deno.env.get('SCHEDULED_CHECK_TIME_BUDGET_MS') ?? 120000);
+const MAX_JOBS_PER_RUN = Number(Deno.env.get('SCHEDULED_CHECK_MAX_JOBS') ?? 100);
+
+// Claimed jobs are leased; heartbeats extend the lease while this run is alive,
+// so jobs held by a crashed run are reclaimed once the lease expires
+const LEASE_SECONDS = 90;
+const HEARTBEAT_INTERVAL_MS = 30000;
+// Lease left on a job this run stopped waiting for: longer than check-url can run, so the claim
+// only settles the job once the check has either stored its snapshot or given up
+const ABANDONED_LEASE_SECONDS = 600;
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -19,53 +43,186 @@ serve(async (req) => {
 
     console.log('Running scheduled URL checks...');
 
-    // Get URLs that need checking
-    const { data: urlsToCheck, error: queryError } = await supabaseClient
+    // Resume URLs whose pause window has ended
+    const { data: resumedUrls, error: resumeError } = await supabaseClient
+      .from('monitored_urls')
+      .update({ is_active: true, paused_until: null })
+      .eq('is_active', false)
+      .lte('paused_until', new Date().toISOString())
+      .select('id');
+
+    if (resumeError) {
+      console.error('Error resuming paused URLs:', resumeError);
+    } else if (resumedUrls?.length) {
+      console.log(`Resumed ${resumedUrls.length} paused URLs`);
+    }
+
+    // Queue a job for every URL that is due (next_check_at is maintained by check-url and the dashboard)
+    const { data: enqueuedCount, error: enqueueError } = await supabaseClient.rpc('enqueue_due_check_jobs');
+
+    if (enqueueError) {
+      throw new Error(`Enqueue error: ${enqueueError.message}`);
+    }
+
+    // Lease due jobs, including retries whose backoff has elapsed and jobs reclaimed from crashed runs
+    const { data: jobs, error: claimError } = await supabaseClient.rpc('claim_check_jobs', {
+      max_jobs: MAX_JOBS_PER_RUN,
+      lease_seconds: LEASE_SECONDS,
+    });
+
+    if (claimError) {
+      throw new Error(`Claim error: ${claimError.message}`);
+    }
+
+    const claimedJobs = jobs || [];
+    console.log(`Enqueued ${enqueuedCount || 0} jobs, claimed ${claimedJobs.length} jobs to run`);
+
+    const { data: claimedUrls, error: queryError } = await supabaseClient
       .from('monitored_urls')
-      .select('*')
-      .eq('is_active', true)
-      .or(`last_checked_at.is.null,last_checked_at.lt.${new Date(Date.now() - 60 * 60 * 1000).toISOString()}`);
+      .select('id, url')
+      .in('id', claimedJobs.map((job) => job.monitored_url_id));
 
     if (queryError) {
       throw new Error(`Query error: ${queryError.message}`);
     }
 
-    console.log(`Found ${urlsToCheck?.length || 0} URLs to check`);
-
-    const results = [];
-
-    for (const url of urlsToCheck || []) {
-      const now = new Date();
-      const lastChecked = url.last_checked_at ? new Date(url.last_checked_at) : null;
-      const hoursSinceCheck = lastChecked 
-        ? (now.getTime() - lastChecked.getTime()) / (1000 * 60 * 60)
-        : Infinity;
-
-      if (!lastChecked || hoursSinceCheck >= url.check_frequency_hours) {
-        console.log(`Checking URL: ${url.url}`);
-        
-        // Call the check-url function
-        const checkResult = await fetch(
-          `${Deno.env.get('SUPABASE_URL')}/functions/v1/check-url`,
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${Deno.env.get('SUPABASE_ANON_KEY')}`,
+    const urlsById = new Map((claimedUrls || []).map((url) => [url.id, url.url]));
+    const heldJobIds = new Set(claimedJobs.map((job) => job.id));
+
+    const heartbeat = setInterval(async () => {
+      if (heldJobIds.size === 0) return;
+
+      const { error } = await supabaseClient
+        .from('check_jobs')
+        .update({
+          heartbeat_at: new Date().toISOString(),
+          lease_expires_at: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString(),
+        })
+        .in('id', [...heldJobIds])
+        .eq('status', 'running');
+
+      if (error) console.error('Heartbeat failed:', error);
+    }, HEARTBEAT_INTERVAL_MS);
+
+    let summary;
+    try {
+      summary = await dispatchBounded(
+        claimedJobs.map((job) => {
+          const url = urlsById.get(job.monitored_url_id) ?? '';
+          return {
+            id: job.id,
+            host: hostOf(url),
+            run: async (signal: AbortSignal) => {
+              console.log(`Checking URL: ${url} (job ${job.id}, ${job.attempts} previous failures)`);
+
+              try {
+                // Call the check-url function
+                const checkResult = await fetch(
+                  `${Deno.env.get('SUPABASE_URL')}/functions/v1/check-url`,
+                  {
+                    method: 'POST',
+                    headers: {
+                      'Content-Type': 'application/json',
+                      'Authorization': `Bearer ${Deno.env.get('SUPABASE_ANON_KEY')}`,
+                    },
+                    body: JSON.stringify({ urlId: job.monitored_url_id }),
+                    signal,
+                  }
+                );
+
+                const result = await checkResult.json();
+                if (!checkResult.ok) {
+                  throw new Error(result.error || `check-url returned ${checkResult.status}`);
+                }
+
+                // A site failure recorded on the timeline completes the job; the next one comes from the schedule
+                await supabaseClient
+                  .from('check_jobs')
+                  .update({
+                    status: 'succeeded',
+                    finished_at: new Date().toISOString(),
+                    lease_expires_at: null,
+                    last_error: result.checkFailed ? result.error : null,
+                  })
+                  .eq('id', job.id);
+
+                return result;
+              } catch (error) {
+                // The request already sent keeps running and usually stores its snapshot, so this is
+                // not a failure; a later claim settles the job by looking for that snapshot
+                if (signal.aborted) {
+                  await supabaseClient
+                    .from('check_jobs')
+                    .update({
+                      lease_expires_at: new Date(Date.now() + ABANDONED_LEASE_SECONDS * 1000).toISOString(),
+                      last_error: 'Time budget exceeded while waiting for the check',
+                    })
+                    .eq('id', job.id)
+                    .eq('status', 'running');
+                  throw error;
+                }
+
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                const { data: failedJob } = await supabaseClient.rpc('fail_check_job', {
+                  job_id: job.id,
+                  error_message: message,
+                });
+                if (failedJob?.status === 'dead') {
+                  console.error(`Job ${job.id} for ${url} is dead after ${failedJob.attempts} attempts: ${message}`);
+                }
+                throw error;
+              } finally {
+                heldJobIds.delete(job.id);
+              }
             },
-            body: JSON.stringify({ urlId: url.id }),
-          }
-        );
+          };
+        }),
+        {
+          maxConcurrency: MAX_CONCURRENCY,
+          perHostConcurrency: PER_HOST_CONCURRENCY,
+          timeBudgetMs: TIME_BUDGET_MS,
+        },
+      );
+    } finally {
+      clearInterval(heartbeat);
+    }
 
-        const result = await checkResult.json();
-        results.push({ url: url.url, result });
-      }
+    // Hand jobs that never started back to the queue without counting an attempt
+    if (summary.deferredIds.length > 0) {
+      const { error: releaseError } = await supabaseClient
+        .from('check_jobs')
+        .update({ status: 'queued', lease_expires_at: null })
+        .in('id', summary.deferredIds);
+
+      if (releaseError) console.error('Error releasing deferred jobs:', releaseError);
     }
 
+    console.log(
+      `Dispatched ${summary.dispatched}, failed ${summary.failed}, deferred ${summary.deferred} to the next run`
+    );
+
+    const jobsById = new Map(claimedJobs.map((job) => [job.id, job]));
+    const urlForJob = (jobId: string) => urlsById.get(jobsById.get(jobId)?.monitored_url_id ?? '');
+
+    const results = summary.outcomes.map((outcome) => ({
+      url: urlForJob(outcome.id),
+      jobId: outcome.id,
+      ...(outcome.status === 'succeeded' ? { result: outcome.value } : { error: outcome.error }),
+    }));
+
     return new Response(
       JSON.stringify({ 
         success: true, 
-        checkedCount: results.length,
+        resumedCount: resumedUrls?.length || 0,
+        enqueuedCount: enqueuedCount || 0,
+        checkedCount: summary.dispatched,
+        summary: {
+          dispatched: summary.dispatched,
+          succeeded: summary.succeeded,
+          failed: summary.failed,
+          deferred: summary.deferred,
+        },
+        deferred: summary.deferredIds.map(urlForJob),
         results 
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
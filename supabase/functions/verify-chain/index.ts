@@ -0,0 +1,190 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { computeChainHash, EvidenceRecord, sha256Hex } from "../_shared/evidence.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const PAGE_SIZE = 1000;
+
+type ChainSnapshot = EvidenceRecord & {
+  chain_hash: string | null;
+  heartbeat: boolean;
+  raw_body_path: string | null;
+};
+
+interface ChainIssue {
+  snapshotId: string;
+  createdAt: string;
+  // tampered: the stored fields no longer match the chain hash
+  // broken_link: the previous snapshot exists but its chain hash differs from the one recorded
+  // gap: the previous snapshot was pruned by retention, which logged the chain hash its successor recorded
+  // deleted: the previous snapshot is gone without a matching prune record
+  // truncated: the chain no longer ends at the snapshot anchored as its head
+  // file_mismatch / file_missing / text_mismatch: only checked in deep mode
+  type: 'tampered' | 'broken_link' | 'gap' | 'deleted' | 'truncated' | 'file_mismatch' | 'file_missing' | 'text_mismatch';
+  detail: string;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+    );
+
+    const { urlId, deep = false } = await req.json();
+
+    if (!urlId) {
+      throw new Error('urlId is required');
+    }
+
+    // Read before the snapshots, so a check that lands meanwhile only adds snapshots after the head
+    const { data: head, error: headError } = await supabaseClient
+      .from('chain_heads')
+      .select('snapshot_id, chain_hash, snapshot_created_at')
+      .eq('monitored_url_id', urlId)
+      .maybeSingle();
+
+    if (headError) {
+      throw new Error(`Chain head query error: ${headError.message}`);
+    }
+
+    const snapshots: ChainSnapshot[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data: page, error: snapshotError } = await supabaseClient
+        .from('content_snapshots')
+        .select('id, monitored_url_id, created_at, check_failed, status_code, final_url, raw_sha256, content_hash, pdf_file_path, file_sha256, previous_snapshot_id, previous_chain_hash, chain_hash, heartbeat, raw_body_path')
+        .eq('monitored_url_id', urlId)
+        .order('created_at', { ascending: true })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (snapshotError) {
+        throw new Error(`Snapshot query error: ${snapshotError.message}`);
+      }
+      snapshots.push(...(page || []));
+      if (!page || page.length < PAGE_SIZE) break;
+    }
+
+    // Written only by prune-snapshots, and not deletable from the app
+    const { data: pruned, error: prunedError } = await supabaseClient
+      .from('pruned_snapshots')
+      .select('snapshot_id, chain_hash')
+      .eq('monitored_url_id', urlId);
+
+    if (prunedError) {
+      throw new Error(`Prune log query error: ${prunedError.message}`);
+    }
+
+    const chained = snapshots.filter((snapshot) => snapshot.chain_hash);
+    const byId = new Map(chained.map((snapshot) => [snapshot.id, snapshot]));
+    const prunedHashes = new Map((pruned || []).map((entry) => [entry.snapshot_id, entry.chain_hash]));
+    const issues: ChainIssue[] = [];
+    const report = (snapshot: ChainSnapshot, type: ChainIssue['type'], detail: string) =>
+      issues.push({ snapshotId: snapshot.id, createdAt: snapshot.created_at, type, detail });
+
+    // The anchored head must still be there unchanged, unless retention pruned it
+    if (head && byId.get(head.snapshot_id)?.chain_hash !== head.chain_hash
+      && prunedHashes.get(head.snapshot_id) !== head.chain_hash) {
+      issues.push({
+        snapshotId: head.snapshot_id,
+        createdAt: head.snapshot_created_at,
+        type: 'truncated',
+        detail: `Snapshot ${head.snapshot_id}, anchored as the end of the chain, is missing or was replaced`,
+      });
+    }
+
+    for (const [index, snapshot] of chained.entries()) {
+      const expected = await computeChainHash(snapshot);
+      if (expected !== snapshot.chain_hash) {
+        report(snapshot, 'tampered', 'Recorded evidence does not match its chain hash');
+      }
+
+      if (snapshot.previous_snapshot_id) {
+        const previous = byId.get(snapshot.previous_snapshot_id);
+        if (!previous && prunedHashes.get(snapshot.previous_snapshot_id) === snapshot.previous_chain_hash) {
+          report(snapshot, 'gap', `Previous snapshot ${snapshot.previous_snapshot_id} was pruned by retention`);
+        } else if (!previous) {
+          report(snapshot, 'deleted', `Previous snapshot ${snapshot.previous_snapshot_id} was deleted outside retention`);
+        } else if (previous.chain_hash !== snapshot.previous_chain_hash) {
+          report(snapshot, 'broken_link', `Previous snapshot ${previous.id} no longer matches the recorded chain hash`);
+        }
+      } else if (index > 0) {
+        report(snapshot, 'broken_link', 'Snapshot starts a new chain although earlier chained snapshots exist');
+      }
+
+      if (!deep) continue;
+
+      if (snapshot.pdf_file_path && snapshot.file_sha256) {
+        const { data: file, error: downloadError } = await supabaseClient.storage
+          .from('content-pdfs')
+          .download(snapshot.pdf_file_path);
+
+        if (downloadError || !file) {
+          report(snapshot, 'file_missing', `Stored file ${snapshot.pdf_file_path} could not be read`);
+        } else if (await sha256Hex(new Uint8Array(await file.arrayBuffer())) !== snapshot.file_sha256) {
+          report(snapshot, 'file_mismatch', `Stored file ${snapshot.pdf_file_path} was changed after capture`);
+        }
+      }
+
+      if (snapshot.raw_body_path && snapshot.raw_sha256) {
+        const { data: body, error: downloadError } = await supabaseClient.storage
+          .from('content-pdfs')
+          .download(snapshot.raw_body_path);
+
+        if (downloadError || !body) {
+          report(snapshot, 'file_missing', `Raw body ${snapshot.raw_body_path} could not be read`);
+        } else if (await sha256Hex(new Uint8Array(await body.arrayBuffer())) !== snapshot.raw_sha256) {
+          report(snapshot, 'file_mismatch', `Raw body ${snapshot.raw_body_path} was changed after capture`);
+        }
+      }
+
+      // Heartbeats borrow the hash of their source, whose own text is checked on its row
+      if (snapshot.content_hash && !snapshot.heartbeat) {
+        const { data: text } = await supabaseClient
+          .from('content_snapshot_texts')
+          .select('full_text')
+          .eq('snapshot_id', snapshot.id)
+          .maybeSingle();
+
+        if (text && await sha256Hex(text.full_text) !== snapshot.content_hash) {
+          report(snapshot, 'text_mismatch', 'Stored text was changed after capture');
+        }
+      }
+    }
+
+    // Gaps are reported but expected after logged pruning; anything else means the evidence was altered
+    const verified = issues.every((issue) => issue.type === 'gap');
+
+    console.log(`Verified chain for ${urlId}: ${chained.length} snapshots, ${issues.length} issues`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        verified,
+        deep,
+        checkedSnapshots: chained.length,
+        unchainedSnapshots: snapshots.length - chained.length,
+        headHash: chained[chained.length - 1]?.chain_hash ?? null,
+        issues,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('Error in verify-chain function:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    );
+  }
+});
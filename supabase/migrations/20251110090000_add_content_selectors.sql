@@ -0,0 +1,10 @@
+-- Add per-URL CSS selectors that scope which part of a page is monitored
+ALTER TABLE monitored_urls
+ADD COLUMN include_selectors TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN exclude_selectors TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN monitored_urls.include_selectors IS
+  'CSS selectors whose text is monitored. When empty, the whole page body is monitored.';
+
+COMMENT ON COLUMN monitored_urls.exclude_selectors IS
+  'CSS selectors removed from the page before text extraction (cookie banners, footers, related-article rails).';
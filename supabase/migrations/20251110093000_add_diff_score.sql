@@ -0,0 +1,6 @@
+-- Add a content-diff based change score alongside the length-based change_percentage
+ALTER TABLE content_snapshots
+ADD COLUMN diff_score NUMERIC;
+
+COMMENT ON COLUMN content_snapshots.diff_score IS
+  'Share of words added or removed compared to the previous snapshot (0-1). Drives the yellow/red alert thresholds.';
@@ -0,0 +1,30 @@
+-- Store the full clean text of each snapshot in a side table so list queries stay small
+CREATE TABLE content_snapshot_texts (
+  snapshot_id UUID PRIMARY KEY REFERENCES content_snapshots(id) ON DELETE CASCADE,
+  full_text TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- Long regulatory documents compress well
+ALTER TABLE content_snapshot_texts ALTER COLUMN full_text SET COMPRESSION lz4;
+
+-- Flag snapshots whose full text is not available (captured while text was cut to 10,000 characters)
+ALTER TABLE content_snapshots
+ADD COLUMN content_truncated BOOLEAN NOT NULL DEFAULT false;
+
+UPDATE content_snapshots
+SET content_truncated = true
+WHERE content_length > char_length(COALESCE(content_text, ''));
+
+COMMENT ON COLUMN content_snapshots.content_text IS
+  'Preview of the clean text (first 10,000 characters). The full text lives in content_snapshot_texts.';
+
+ALTER TABLE content_snapshot_texts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on content_snapshot_texts"
+  ON content_snapshot_texts FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on content_snapshot_texts"
+  ON content_snapshot_texts FOR INSERT
+  WITH CHECK (true);
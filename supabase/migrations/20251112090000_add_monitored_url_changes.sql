@@ -0,0 +1,19 @@
+-- Audit trail of settings edits made to monitored URLs
+CREATE TABLE monitored_url_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  monitored_url_id UUID REFERENCES monitored_urls(id) ON DELETE CASCADE NOT NULL,
+  changes JSONB NOT NULL, -- { "<column>": { "from": <old value>, "to": <new value> } }
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_monitored_url_changes_url_id ON monitored_url_changes(monitored_url_id, changed_at DESC);
+
+ALTER TABLE monitored_url_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on monitored_url_changes"
+  ON monitored_url_changes FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on monitored_url_changes"
+  ON monitored_url_changes FOR INSERT
+  WITH CHECK (true);
@@ -0,0 +1,8 @@
+-- Allow monitoring to be paused until a given time, after which scheduled-check resumes it
+ALTER TABLE monitored_urls
+ADD COLUMN paused_until TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN monitored_urls.paused_until IS
+  'When is_active is false, the time at which monitoring resumes automatically. NULL pauses indefinitely.';
+
+CREATE INDEX idx_monitored_urls_paused_until ON monitored_urls(paused_until) WHERE paused_until IS NOT NULL;
@@ -0,0 +1,17 @@
+-- Per-URL cron schedules with time zone support, and a precomputed next check time
+ALTER TABLE monitored_urls
+ADD COLUMN schedule_cron TEXT,
+ADD COLUMN schedule_timezone TEXT NOT NULL DEFAULT 'UTC',
+ADD COLUMN next_check_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN monitored_urls.schedule_cron IS
+  'Cron expression (e.g. "5 9 * * 1-5" for weekdays at 09:05) evaluated in schedule_timezone. When NULL, check_frequency_hours is used.';
+
+COMMENT ON COLUMN monitored_urls.next_check_at IS
+  'When the URL is next due. Computed by check-url after each check and by the dashboard when the schedule changes.';
+
+-- Existing URLs keep their frequency-based cadence
+UPDATE monitored_urls
+SET next_check_at = COALESCE(last_checked_at + make_interval(hours => check_frequency_hours), now());
+
+CREATE INDEX idx_monitored_urls_next_check_at ON monitored_urls(next_check_at) WHERE is_active = true;
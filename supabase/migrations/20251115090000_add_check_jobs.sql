@@ -0,0 +1,127 @@
+-- Persistent queue of URL checks with retries, leases and dead-lettering
+CREATE TYPE check_job_status AS ENUM ('queued', 'running', 'succeeded', 'failed', 'dead');
+
+CREATE TABLE check_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  monitored_url_id UUID REFERENCES monitored_urls(id) ON DELETE CASCADE NOT NULL,
+  status check_job_status NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0, -- failed attempts so far
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  lease_expires_at TIMESTAMP WITH TIME ZONE, -- set while a scheduled-check run holds the job
+  heartbeat_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- At most one unfinished job per URL. Dead jobs count, so a dead-lettered URL waits for a manual retry.
+CREATE UNIQUE INDEX idx_check_jobs_open_per_url ON check_jobs(monitored_url_id)
+  WHERE status IN ('queued', 'running', 'failed', 'dead');
+CREATE INDEX idx_check_jobs_claimable ON check_jobs(run_after) WHERE status IN ('queued', 'failed');
+CREATE INDEX idx_check_jobs_status ON check_jobs(status);
+
+CREATE TRIGGER update_check_jobs_updated_at
+  BEFORE UPDATE ON check_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE check_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on check_jobs"
+  ON check_jobs FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on check_jobs"
+  ON check_jobs FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update on check_jobs"
+  ON check_jobs FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Allow public delete on check_jobs"
+  ON check_jobs FOR DELETE
+  USING (true);
+
+-- Exponential backoff: 5 minutes, doubling per failed attempt, capped at 6 hours
+CREATE OR REPLACE FUNCTION check_job_backoff(attempts INTEGER)
+RETURNS INTERVAL AS $$
+  SELECT LEAST(interval '6 hours', interval '5 minutes' * power(2, GREATEST(attempts - 1, 0)));
+$$ LANGUAGE sql IMMUTABLE
+SET search_path = public;
+
+-- Queue a job for every active URL that is due and has no unfinished job
+CREATE OR REPLACE FUNCTION enqueue_due_check_jobs()
+RETURNS INTEGER AS $$
+DECLARE
+  enqueued INTEGER;
+BEGIN
+  INSERT INTO check_jobs (monitored_url_id)
+  SELECT u.id
+  FROM monitored_urls u
+  WHERE u.is_active = true
+    AND (u.next_check_at IS NULL OR u.next_check_at <= now())
+    AND NOT EXISTS (
+      SELECT 1 FROM check_jobs j
+      WHERE j.monitored_url_id = u.id
+        AND j.status IN ('queued', 'running', 'failed', 'dead')
+    )
+  ON CONFLICT DO NOTHING;
+
+  GET DIAGNOSTICS enqueued = ROW_COUNT;
+
+  -- Finished jobs are only kept for a week
+  DELETE FROM check_jobs
+  WHERE status = 'succeeded' AND finished_at < now() - interval '7 days';
+
+  RETURN enqueued;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+-- Record a failed attempt, scheduling a retry or dead-lettering the job
+CREATE OR REPLACE FUNCTION fail_check_job(job_id UUID, error_message TEXT)
+RETURNS check_jobs AS $$
+  UPDATE check_jobs
+  SET
+    attempts = attempts + 1,
+    status = CASE WHEN attempts + 1 >= max_attempts THEN 'dead'::check_job_status ELSE 'failed'::check_job_status END,
+    run_after = now() + check_job_backoff(attempts + 1),
+    finished_at = CASE WHEN attempts + 1 >= max_attempts THEN now() ELSE NULL END,
+    lease_expires_at = NULL,
+    last_error = error_message
+  WHERE id = job_id
+  RETURNING *;
+$$ LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public;
+
+-- Reclaim jobs whose lease expired (the run holding them crashed), then lease up to max_jobs due jobs
+CREATE OR REPLACE FUNCTION claim_check_jobs(max_jobs INTEGER, lease_seconds INTEGER)
+RETURNS SETOF check_jobs AS $$
+BEGIN
+  PERFORM fail_check_job(id, 'Lease expired before the check finished')
+  FROM check_jobs
+  WHERE status = 'running' AND lease_expires_at < now();
+
+  RETURN QUERY
+  UPDATE check_jobs j
+  SET
+    status = 'running',
+    lease_expires_at = now() + make_interval(secs => lease_seconds),
+    heartbeat_at = now()
+  WHERE j.id IN (
+    SELECT id FROM check_jobs
+    WHERE status IN ('queued', 'failed') AND run_after <= now()
+    ORDER BY run_after
+    LIMIT max_jobs
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
@@ -0,0 +1,28 @@
+-- Record failed checks on the snapshot timeline
+CREATE TYPE check_error_category AS ENUM ('dns', 'tls', 'timeout', 'connection', 'http', 'extraction', 'unknown');
+
+ALTER TABLE content_snapshots
+ALTER COLUMN content_hash DROP NOT NULL,
+ADD COLUMN check_failed BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN error_category check_error_category,
+ADD COLUMN error_class TEXT,
+ADD COLUMN error_message TEXT,
+ADD COLUMN check_duration_ms INTEGER;
+
+COMMENT ON COLUMN content_snapshots.check_failed IS
+  'True when the check could not fetch or extract the content. Such rows have no content_hash and are skipped when diffing.';
+
+CREATE INDEX idx_content_snapshots_successful ON content_snapshots(monitored_url_id, created_at DESC)
+  WHERE check_failed = false;
+
+-- Consecutive failures drive their own alert level, independent of content change thresholds
+ALTER TABLE monitored_urls
+ADD COLUMN consecutive_failures INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN failure_yellow_threshold INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN failure_red_threshold INTEGER NOT NULL DEFAULT 3;
+
+COMMENT ON COLUMN monitored_urls.failure_yellow_threshold IS
+  'Number of consecutive failed checks that raises a yellow alert.';
+
+COMMENT ON COLUMN monitored_urls.failure_red_threshold IS
+  'Number of consecutive failed checks that raises a red alert.';
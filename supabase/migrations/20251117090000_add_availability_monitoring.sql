@@ -0,0 +1,39 @@
+-- Availability monitoring, tracked separately from content changes
+ALTER TABLE monitored_urls
+ADD COLUMN expected_status_codes INTEGER[] NOT NULL DEFAULT '{200}',
+ADD COLUMN availability_status TEXT CHECK (availability_status IN ('up', 'down')),
+ADD COLUMN availability_changed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN monitored_urls.expected_status_codes IS
+  'HTTP status codes that count as up. Any other status, or a failed connection, counts as down.';
+
+COMMENT ON COLUMN monitored_urls.availability_status IS
+  'Result of the latest availability check. NULL until the URL has been checked.';
+
+-- One row per outage; ended_at is NULL while the URL is still down
+CREATE TABLE downtime_periods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  monitored_url_id UUID REFERENCES monitored_urls(id) ON DELETE CASCADE NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  status_code INTEGER,
+  error_category check_error_category,
+  reason TEXT
+);
+
+CREATE INDEX idx_downtime_periods_url_id ON downtime_periods(monitored_url_id, started_at DESC);
+CREATE UNIQUE INDEX idx_downtime_periods_open_per_url ON downtime_periods(monitored_url_id) WHERE ended_at IS NULL;
+
+ALTER TABLE downtime_periods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on downtime_periods"
+  ON downtime_periods FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on downtime_periods"
+  ON downtime_periods FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update on downtime_periods"
+  ON downtime_periods FOR UPDATE
+  USING (true);
@@ -0,0 +1,23 @@
+-- Per-check response metrics and TLS certificate details
+ALTER TABLE content_snapshots
+ADD COLUMN response_time_ms INTEGER,
+ADD COLUMN final_url TEXT,
+ADD COLUMN redirect_chain JSONB NOT NULL DEFAULT '[]'::jsonb,
+ADD COLUMN tls_issuer TEXT,
+ADD COLUMN tls_expires_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN content_snapshots.response_time_ms IS
+  'Time from the first request until the response body was read, including redirects.';
+
+COMMENT ON COLUMN content_snapshots.redirect_chain IS
+  'Redirect hops before the final response, as [{"url": ..., "status": ...}].';
+
+ALTER TABLE monitored_urls
+ADD COLUMN cert_expiry_alert_days INTEGER NOT NULL DEFAULT 14 CHECK (cert_expiry_alert_days >= 0),
+ADD COLUMN cert_expiry_alerted_for TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN monitored_urls.cert_expiry_alert_days IS
+  'Alert when the TLS certificate expires within this many days. 0 disables the alert.';
+
+COMMENT ON COLUMN monitored_urls.cert_expiry_alerted_for IS
+  'Expiry date of the certificate that was last alerted on, so each certificate alerts once.';
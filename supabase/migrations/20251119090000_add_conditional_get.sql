@@ -0,0 +1,16 @@
+-- Cache validators for conditional GETs, and snapshots recorded from a 304 response
+ALTER TABLE monitored_urls
+ADD COLUMN http_etag TEXT,
+ADD COLUMN http_last_modified TEXT;
+
+COMMENT ON COLUMN monitored_urls.http_etag IS
+  'ETag of the last fully fetched response, sent as If-None-Match on the next check.';
+
+COMMENT ON COLUMN monitored_urls.http_last_modified IS
+  'Last-Modified of the last fully fetched response, sent as If-Modified-Since on the next check.';
+
+ALTER TABLE content_snapshots
+ADD COLUMN not_modified BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN content_snapshots.not_modified IS
+  'The server answered 304 Not Modified; no content or file was stored for this check.';
@@ -0,0 +1,15 @@
+-- Unchanged checks are stored as heartbeats that point at the last snapshot with its own content
+ALTER TABLE content_snapshots
+ADD COLUMN heartbeat BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN source_snapshot_id UUID REFERENCES content_snapshots(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN content_snapshots.heartbeat IS
+  'Content was unchanged; no text or file was stored and source_snapshot_id holds the content.';
+
+COMMENT ON COLUMN content_snapshots.source_snapshot_id IS
+  'For heartbeats, the snapshot whose stored text and file this check matched.';
+
+CREATE INDEX idx_content_snapshots_source_snapshot_id ON content_snapshots(source_snapshot_id);
+
+-- 304 snapshots recorded before heartbeats existed are heartbeats too
+UPDATE content_snapshots SET heartbeat = true WHERE not_modified;
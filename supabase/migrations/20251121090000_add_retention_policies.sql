@@ -0,0 +1,59 @@
+-- Retention policies for snapshots and their stored files, applied by the prune-snapshots function
+CREATE TABLE retention_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  monitored_url_id UUID REFERENCES monitored_urls(id) ON DELETE CASCADE, -- NULL is the global default
+  keep_last_n INTEGER CHECK (keep_last_n > 0), -- NULL keeps everything inside the rollup window
+  keep_alerts BOOLEAN NOT NULL DEFAULT true,
+  rollup_after_days INTEGER DEFAULT 90 CHECK (rollup_after_days > 0), -- NULL never thins old snapshots
+  rollup_interval TEXT NOT NULL DEFAULT 'daily' CHECK (rollup_interval IN ('daily', 'weekly')),
+  dry_run BOOLEAN NOT NULL DEFAULT true, -- report only until the results have been reviewed
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+-- One policy per URL, and a single global policy
+CREATE UNIQUE INDEX idx_retention_policies_url ON retention_policies(monitored_url_id)
+  WHERE monitored_url_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_retention_policies_global ON retention_policies((monitored_url_id IS NULL))
+  WHERE monitored_url_id IS NULL;
+
+CREATE TRIGGER update_retention_policies_updated_at
+  BEFORE UPDATE ON retention_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE retention_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on retention_policies"
+  ON retention_policies FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on retention_policies"
+  ON retention_policies FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update on retention_policies"
+  ON retention_policies FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Allow public delete on retention_policies"
+  ON retention_policies FOR DELETE
+  USING (true);
+
+-- Report of every prune-snapshots run, including dry runs
+CREATE TABLE retention_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dry_run BOOLEAN NOT NULL,
+  snapshots_deleted INTEGER NOT NULL DEFAULT 0,
+  files_deleted INTEGER NOT NULL DEFAULT 0,
+  report JSONB NOT NULL DEFAULT '[]'::jsonb, -- one entry per URL with kept and deleted counts
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_retention_runs_created_at ON retention_runs(created_at DESC);
+
+ALTER TABLE retention_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on retention_runs"
+  ON retention_runs FOR SELECT
+  USING (true);
@@ -0,0 +1,76 @@
+-- Legal holds on URLs or individual snapshots. Held snapshots cannot be deleted by anyone,
+-- including retention pruning, until the hold is lifted. Rows are never deleted, so the table
+-- doubles as the record of who placed and lifted each hold.
+CREATE TABLE legal_holds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope TEXT NOT NULL CHECK (scope IN ('url', 'snapshot')),
+  monitored_url_id UUID REFERENCES monitored_urls(id) ON DELETE SET NULL,
+  snapshot_id UUID REFERENCES content_snapshots(id) ON DELETE SET NULL,
+  reason TEXT,
+  placed_by TEXT NOT NULL,
+  placed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  lifted_by TEXT,
+  lifted_at TIMESTAMP WITH TIME ZONE,
+  CHECK ((scope = 'snapshot') = (snapshot_id IS NOT NULL) OR lifted_at IS NOT NULL),
+  CHECK ((lifted_by IS NULL) = (lifted_at IS NULL))
+);
+
+CREATE INDEX idx_legal_holds_url_id ON legal_holds(monitored_url_id, placed_at DESC);
+CREATE INDEX idx_legal_holds_snapshot_id ON legal_holds(snapshot_id);
+CREATE UNIQUE INDEX idx_legal_holds_active_url ON legal_holds(monitored_url_id)
+  WHERE scope = 'url' AND lifted_at IS NULL;
+CREATE UNIQUE INDEX idx_legal_holds_active_snapshot ON legal_holds(snapshot_id)
+  WHERE scope = 'snapshot' AND lifted_at IS NULL;
+
+ALTER TABLE legal_holds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on legal_holds"
+  ON legal_holds FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on legal_holds"
+  ON legal_holds FOR INSERT
+  WITH CHECK (lifted_at IS NULL);
+
+-- Holds can only be lifted, once; no delete policy keeps the history intact
+CREATE POLICY "Allow public lift on legal_holds"
+  ON legal_holds FOR UPDATE
+  USING (lifted_at IS NULL);
+
+-- True when the snapshot itself or its URL has an active hold
+CREATE OR REPLACE FUNCTION snapshot_on_legal_hold(target_snapshot_id UUID, target_url_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM legal_holds
+    WHERE lifted_at IS NULL
+      AND (
+        (scope = 'snapshot' AND snapshot_id = target_snapshot_id)
+        OR (scope = 'url' AND monitored_url_id = target_url_id)
+      )
+  );
+$$ LANGUAGE sql STABLE
+SET search_path = public;
+
+DROP POLICY "Allow public delete on content_snapshots" ON content_snapshots;
+
+CREATE POLICY "Allow public delete on content_snapshots"
+  ON content_snapshots FOR DELETE
+  USING (NOT snapshot_on_legal_hold(id, monitored_url_id));
+
+-- RLS does not apply to the service role used by edge functions, so a trigger enforces holds for everyone.
+-- It also stops a URL delete from cascading into held snapshots.
+CREATE OR REPLACE FUNCTION prevent_legal_hold_delete()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF snapshot_on_legal_hold(OLD.id, OLD.monitored_url_id) THEN
+    RAISE EXCEPTION 'Snapshot % is under legal hold and cannot be deleted', OLD.id;
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+CREATE TRIGGER prevent_content_snapshots_legal_hold_delete
+  BEFORE DELETE ON content_snapshots
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_legal_hold_delete();
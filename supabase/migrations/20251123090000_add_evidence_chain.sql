@@ -0,0 +1,21 @@
+-- Tamper-evident chain over each URL's snapshots
+ALTER TABLE content_snapshots
+ADD COLUMN raw_sha256 TEXT,
+ADD COLUMN file_sha256 TEXT,
+ADD COLUMN response_headers JSONB,
+-- Not a foreign key: the id is part of the hashed record and must survive the previous snapshot being pruned
+ADD COLUMN previous_snapshot_id UUID,
+ADD COLUMN previous_chain_hash TEXT,
+ADD COLUMN chain_hash TEXT;
+
+COMMENT ON COLUMN content_snapshots.raw_sha256 IS
+  'SHA-256 of the response body exactly as received; null when there was no body.';
+
+COMMENT ON COLUMN content_snapshots.file_sha256 IS
+  'SHA-256 of the file stored at pdf_file_path when it was uploaded.';
+
+COMMENT ON COLUMN content_snapshots.chain_hash IS
+  'SHA-256 over this snapshot''s evidence fields and previous_chain_hash; null for snapshots taken before the chain existed.';
+
+CREATE INDEX idx_content_snapshots_chain ON content_snapshots(monitored_url_id, created_at DESC)
+WHERE chain_hash IS NOT NULL;
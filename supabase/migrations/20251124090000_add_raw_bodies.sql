@@ -0,0 +1,7 @@
+-- The response body as received is stored next to the generated PDF
+ALTER TABLE content_snapshots
+ADD COLUMN raw_body_path TEXT,
+ADD COLUMN raw_content_type TEXT;
+
+COMMENT ON COLUMN content_snapshots.raw_body_path IS
+  'Path in the content-pdfs bucket of the unmodified response body; response_headers holds its headers.';
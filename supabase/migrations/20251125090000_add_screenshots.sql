@@ -0,0 +1,12 @@
+-- Optional full-page screenshots of JavaScript-rendered pages
+ALTER TABLE monitored_urls
+ADD COLUMN capture_screenshot BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE content_snapshots
+ADD COLUMN screenshot_path TEXT;
+
+COMMENT ON COLUMN monitored_urls.capture_screenshot IS
+  'Save a full-page PNG with each snapshot; only applies when use_javascript_rendering is on.';
+
+COMMENT ON COLUMN content_snapshots.screenshot_path IS
+  'Path in the content-pdfs bucket of the full-page PNG screenshot.';
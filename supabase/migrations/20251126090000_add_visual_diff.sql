@@ -0,0 +1,17 @@
+-- Pixel comparison between consecutive screenshots
+ALTER TABLE monitored_urls
+ADD COLUMN visual_diff_tolerance NUMERIC NOT NULL DEFAULT 0.1 CHECK (visual_diff_tolerance >= 0 AND visual_diff_tolerance <= 1),
+ADD COLUMN visual_yellow_threshold NUMERIC CHECK (visual_yellow_threshold >= 0 AND visual_yellow_threshold <= 1),
+ADD COLUMN visual_red_threshold NUMERIC CHECK (visual_red_threshold >= 0 AND visual_red_threshold <= 1);
+
+ALTER TABLE content_snapshots
+ADD COLUMN visual_change_percentage NUMERIC;
+
+COMMENT ON COLUMN monitored_urls.visual_diff_tolerance IS
+  'Per-pixel colour tolerance (0-1) below which a pixel does not count as changed.';
+
+COMMENT ON COLUMN monitored_urls.visual_yellow_threshold IS
+  'Share of changed pixels that raises a yellow alert; visual alerting is off unless both visual thresholds are set.';
+
+COMMENT ON COLUMN content_snapshots.visual_change_percentage IS
+  'Share of pixels (0-1) that changed since the previous stored screenshot.';
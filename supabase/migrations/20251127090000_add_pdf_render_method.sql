@@ -0,0 +1,6 @@
+-- Record how each snapshot's archival file was produced
+ALTER TABLE content_snapshots
+ADD COLUMN pdf_render_method TEXT CHECK (pdf_render_method IN ('original', 'browser', 'structured', 'html_fallback'));
+
+COMMENT ON COLUMN content_snapshots.pdf_render_method IS
+  'original: the response was a PDF; browser: printed by the headless browser; structured: rendered from the HTML structure; html_fallback: rendering failed and the HTML was stored. Null for snapshots taken before this was recorded.';
@@ -0,0 +1,17 @@
+-- Per-page text of PDF snapshots, so changes can be reported by page
+ALTER TABLE content_snapshot_texts
+ADD COLUMN page_texts TEXT[];
+
+ALTER TABLE content_snapshots
+ADD COLUMN page_count INTEGER,
+ADD COLUMN changed_pages INTEGER[],
+ADD COLUMN removed_pages INTEGER[];
+
+COMMENT ON COLUMN content_snapshot_texts.page_texts IS
+  'Clean text of each page, in page order. Null unless the response was a PDF.';
+
+COMMENT ON COLUMN content_snapshots.changed_pages IS
+  'Pages (numbered as in this snapshot) that are new or differ from the previous PDF snapshot.';
+
+COMMENT ON COLUMN content_snapshots.removed_pages IS
+  'Pages (numbered as in the previous snapshot) that no longer exist.';
@@ -0,0 +1,6 @@
+-- Rows and columns of the tables on HTML pages, so table changes can be compared cell by cell
+ALTER TABLE content_snapshot_texts
+ADD COLUMN tables JSONB;
+
+COMMENT ON COLUMN content_snapshot_texts.tables IS
+  'Tables in the monitored part of the page as [{caption, headers, rows}], with spanning cells repeated. Null when the page has no tables or is not HTML.';
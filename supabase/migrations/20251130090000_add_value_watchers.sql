@@ -0,0 +1,61 @@
+-- Named numeric values read from a URL on every check, e.g. an interest rate on a rates page
+CREATE TABLE value_watchers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  monitored_url_id UUID NOT NULL REFERENCES monitored_urls(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  extractor TEXT NOT NULL CHECK (extractor IN ('selector', 'regex')),
+  pattern TEXT NOT NULL,
+  alert_rule TEXT CHECK (alert_rule IN ('changed', 'crosses_above', 'crosses_below', 'crosses', 'moves_bps')), -- NULL records values without alerting
+  alert_value NUMERIC, -- threshold for the crosses rules, basis points for moves_bps
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (monitored_url_id, name),
+  CHECK (alert_rule IS NULL OR alert_rule = 'changed' OR alert_value IS NOT NULL)
+);
+
+CREATE TRIGGER update_value_watchers_updated_at
+  BEFORE UPDATE ON value_watchers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE value_watchers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on value_watchers"
+  ON value_watchers FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on value_watchers"
+  ON value_watchers FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update on value_watchers"
+  ON value_watchers FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Allow public delete on value_watchers"
+  ON value_watchers FOR DELETE
+  USING (true);
+
+-- Time series of each watcher, one row per check that fetched the page. Observations outlive
+-- pruned snapshots so the series stays complete.
+CREATE TABLE value_observations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  watcher_id UUID NOT NULL REFERENCES value_watchers(id) ON DELETE CASCADE,
+  snapshot_id UUID REFERENCES content_snapshots(id) ON DELETE SET NULL,
+  value NUMERIC, -- NULL when the value could not be read, see error
+  matched_text TEXT,
+  error TEXT,
+  alert_message TEXT, -- set when the watcher's alert rule fired
+  observed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_value_observations_watcher ON value_observations(watcher_id, observed_at DESC);
+CREATE INDEX idx_value_observations_snapshot ON value_observations(snapshot_id);
+
+ALTER TABLE value_observations ENABLE ROW LEVEL SECURITY;
+
+-- Observations are written by check-url with the service role
+CREATE POLICY "Allow public read access on value_observations"
+  ON value_observations FOR SELECT
+  USING (true);
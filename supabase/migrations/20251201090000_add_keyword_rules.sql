@@ -0,0 +1,60 @@
+-- Words, phrases or patterns whose appearance or disappearance on a URL is alerted on,
+-- whatever the size of the change
+CREATE TABLE keyword_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  monitored_url_id UUID NOT NULL REFERENCES monitored_urls(id) ON DELETE CASCADE,
+  phrase TEXT NOT NULL CHECK (length(trim(phrase)) > 0),
+  match_type TEXT NOT NULL DEFAULT 'keyword' CHECK (match_type IN ('keyword', 'regex')),
+  case_sensitive BOOLEAN NOT NULL DEFAULT false,
+  alert_on TEXT NOT NULL DEFAULT 'both' CHECK (alert_on IN ('appear', 'disappear', 'both')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_keyword_rules_url ON keyword_rules(monitored_url_id);
+
+CREATE TRIGGER update_keyword_rules_updated_at
+  BEFORE UPDATE ON keyword_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE keyword_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on keyword_rules"
+  ON keyword_rules FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public insert on keyword_rules"
+  ON keyword_rules FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow public update on keyword_rules"
+  ON keyword_rules FOR UPDATE
+  USING (true);
+
+CREATE POLICY "Allow public delete on keyword_rules"
+  ON keyword_rules FOR DELETE
+  USING (true);
+
+-- Every time a rule's phrase started or stopped being mentioned, with the text around it
+CREATE TABLE keyword_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  rule_id UUID NOT NULL REFERENCES keyword_rules(id) ON DELETE CASCADE,
+  snapshot_id UUID REFERENCES content_snapshots(id) ON DELETE SET NULL,
+  event TEXT NOT NULL CHECK (event IN ('appeared', 'disappeared')),
+  snippet TEXT NOT NULL,
+  match_count INTEGER NOT NULL,
+  alert_sent BOOLEAN NOT NULL DEFAULT false, -- false when the rule only alerts on the other direction
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_keyword_events_rule ON keyword_events(rule_id, created_at DESC);
+CREATE INDEX idx_keyword_events_snapshot ON keyword_events(snapshot_id);
+
+ALTER TABLE keyword_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by check-url with the service role
+CREATE POLICY "Allow public read access on keyword_events"
+  ON keyword_events FOR SELECT
+  USING (true);
@@ -0,0 +1,40 @@
+-- Without a WITH CHECK the USING expression also applies to the updated row, so setting lifted_at
+-- was rejected and holds could never be lifted from the app
+DROP POLICY "Allow public lift on legal_holds" ON legal_holds;
+
+CREATE POLICY "Allow public lift on legal_holds"
+  ON legal_holds FOR UPDATE
+  USING (lifted_at IS NULL)
+  WITH CHECK (lifted_at IS NOT NULL);
+
+-- A hold is a record: only lifting it may change it, once. Deleting a URL or snapshot may still
+-- clear the reference on holds that were already lifted (ON DELETE SET NULL).
+CREATE OR REPLACE FUNCTION protect_legal_hold_record()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.id, NEW.scope, NEW.reason, NEW.placed_by, NEW.placed_at)
+    IS DISTINCT FROM (OLD.id, OLD.scope, OLD.reason, OLD.placed_by, OLD.placed_at) THEN
+    RAISE EXCEPTION 'Legal hold % can only be lifted, not edited', OLD.id;
+  END IF;
+
+  IF (NEW.monitored_url_id IS DISTINCT FROM OLD.monitored_url_id
+      AND NOT (NEW.monitored_url_id IS NULL AND OLD.lifted_at IS NOT NULL))
+    OR (NEW.snapshot_id IS DISTINCT FROM OLD.snapshot_id
+      AND NOT (NEW.snapshot_id IS NULL AND OLD.lifted_at IS NOT NULL)) THEN
+    RAISE EXCEPTION 'Legal hold % can only be lifted, not moved', OLD.id;
+  END IF;
+
+  IF OLD.lifted_at IS NOT NULL
+    AND (NEW.lifted_by, NEW.lifted_at) IS DISTINCT FROM (OLD.lifted_by, OLD.lifted_at) THEN
+    RAISE EXCEPTION 'Legal hold % has already been lifted', OLD.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+CREATE TRIGGER protect_legal_holds_record
+  BEFORE UPDATE ON legal_holds
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_legal_hold_record();
@@ -0,0 +1,29 @@
+-- Only claim jobs of URLs that are still being monitored. Jobs of a paused URL stay queued
+-- and run once it is resumed, instead of checking a URL the user asked to stop checking.
+CREATE OR REPLACE FUNCTION claim_check_jobs(max_jobs INTEGER, lease_seconds INTEGER)
+RETURNS SETOF check_jobs AS $$
+BEGIN
+  PERFORM fail_check_job(id, 'Lease expired before the check finished')
+  FROM check_jobs
+  WHERE status = 'running' AND lease_expires_at < now();
+
+  RETURN QUERY
+  UPDATE check_jobs j
+  SET
+    status = 'running',
+    lease_expires_at = now() + make_interval(secs => lease_seconds),
+    heartbeat_at = now()
+  WHERE j.id IN (
+    SELECT c.id FROM check_jobs c
+    JOIN monitored_urls u ON u.id = c.monitored_url_id
+    WHERE c.status IN ('queued', 'failed') AND c.run_after <= now()
+      AND u.is_active = true
+    ORDER BY c.run_after
+    LIMIT max_jobs
+    FOR UPDATE OF c SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
@@ -0,0 +1,69 @@
+-- Records that let verify-chain tell retention from tampering. Neither table has insert, update or
+-- delete policies: only the service role and the trigger below write them, so the app cannot erase them.
+
+-- Chained snapshots deleted by prune-snapshots. A gap in a chain is only expected when the missing
+-- snapshot is logged here with the chain hash its successor recorded.
+CREATE TABLE pruned_snapshots (
+  -- Not a foreign key: the snapshot is gone
+  snapshot_id UUID PRIMARY KEY,
+  monitored_url_id UUID NOT NULL REFERENCES monitored_urls(id) ON DELETE CASCADE,
+  chain_hash TEXT NOT NULL,
+  snapshot_created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  pruned_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_pruned_snapshots_url ON pruned_snapshots(monitored_url_id);
+
+ALTER TABLE pruned_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on pruned_snapshots"
+  ON pruned_snapshots FOR SELECT
+  USING (true);
+
+-- The newest chained snapshot of each URL, so deleting the end of a chain does not go unnoticed
+CREATE TABLE chain_heads (
+  monitored_url_id UUID PRIMARY KEY REFERENCES monitored_urls(id) ON DELETE CASCADE,
+  -- Not a foreign key: the anchor must outlive the snapshot it names
+  snapshot_id UUID NOT NULL,
+  chain_hash TEXT NOT NULL,
+  snapshot_created_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+ALTER TABLE chain_heads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access on chain_heads"
+  ON chain_heads FOR SELECT
+  USING (true);
+
+-- Runs as the owner so the head moves whoever inserts the snapshot, while nobody can move it back
+CREATE OR REPLACE FUNCTION advance_chain_head()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO chain_heads (monitored_url_id, snapshot_id, chain_hash, snapshot_created_at)
+  VALUES (NEW.monitored_url_id, NEW.id, NEW.chain_hash, NEW.created_at)
+  ON CONFLICT (monitored_url_id) DO UPDATE
+  SET
+    snapshot_id = EXCLUDED.snapshot_id,
+    chain_hash = EXCLUDED.chain_hash,
+    snapshot_created_at = EXCLUDED.snapshot_created_at,
+    updated_at = now()
+  WHERE chain_heads.snapshot_created_at <= EXCLUDED.snapshot_created_at;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
+
+CREATE TRIGGER advance_content_snapshots_chain_head
+  AFTER INSERT ON content_snapshots
+  FOR EACH ROW
+  WHEN (NEW.chain_hash IS NOT NULL)
+  EXECUTE FUNCTION advance_chain_head();
+
+-- Anchor the chains that already exist at their current end
+INSERT INTO chain_heads (monitored_url_id, snapshot_id, chain_hash, snapshot_created_at)
+SELECT DISTINCT ON (monitored_url_id) monitored_url_id, id, chain_hash, created_at
+FROM content_snapshots
+WHERE chain_hash IS NOT NULL
+ORDER BY monitored_url_id, created_at DESC;
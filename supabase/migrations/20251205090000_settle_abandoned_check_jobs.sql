@@ -0,0 +1,48 @@
+-- A run that stops waiting for a check (its time budget ran out) cannot tell whether check-url
+-- finished on its own. Such jobs keep their lease, and once it expires the claim settles them by
+-- looking for a snapshot taken since the job started, instead of retrying a check that already ran.
+ALTER TABLE check_jobs
+ADD COLUMN started_at TIMESTAMP WITH TIME ZONE; -- when the current attempt was claimed
+
+CREATE OR REPLACE FUNCTION claim_check_jobs(max_jobs INTEGER, lease_seconds INTEGER)
+RETURNS SETOF check_jobs AS $$
+BEGIN
+  -- Failure snapshots count too: check-url recorded the attempt either way
+  UPDATE check_jobs j
+  SET
+    status = 'succeeded',
+    finished_at = now(),
+    lease_expires_at = NULL,
+    last_error = NULL
+  WHERE j.status = 'running' AND j.lease_expires_at < now()
+    AND j.started_at IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM content_snapshots s
+      WHERE s.monitored_url_id = j.monitored_url_id AND s.created_at >= j.started_at
+    );
+
+  PERFORM fail_check_job(id, 'Lease expired before the check finished')
+  FROM check_jobs
+  WHERE status = 'running' AND lease_expires_at < now();
+
+  RETURN QUERY
+  UPDATE check_jobs j
+  SET
+    status = 'running',
+    lease_expires_at = now() + make_interval(secs => lease_seconds),
+    heartbeat_at = now(),
+    started_at = now()
+  WHERE j.id IN (
+    SELECT c.id FROM check_jobs c
+    JOIN monitored_urls u ON u.id = c.monitored_url_id
+    WHERE c.status IN ('queued', 'failed') AND c.run_after <= now()
+      AND u.is_active = true
+    ORDER BY c.run_after
+    LIMIT max_jobs
+    FOR UPDATE OF c SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public;
@@ -0,0 +1,60 @@
+-- Chain head anchors and the prune log. Run with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(5);
+
+INSERT INTO monitored_urls (id, url)
+VALUES ('00000000-0000-0000-0000-000000000001', 'https://example.com/terms');
+
+INSERT INTO content_snapshots (id, monitored_url_id, created_at, chain_hash)
+VALUES ('00000000-0000-0000-0000-000000000011', '00000000-0000-0000-0000-000000000001', now() - interval '1 hour', 'hash-1');
+
+INSERT INTO content_snapshots (id, monitored_url_id, created_at, previous_snapshot_id, previous_chain_hash, chain_hash)
+VALUES ('00000000-0000-0000-0000-000000000012', '00000000-0000-0000-0000-000000000001', now(),
+        '00000000-0000-0000-0000-000000000011', 'hash-1', 'hash-2');
+
+SELECT is(
+  (SELECT chain_hash FROM chain_heads WHERE monitored_url_id = '00000000-0000-0000-0000-000000000001'),
+  'hash-2',
+  'the newest chained snapshot becomes the head'
+);
+
+-- A snapshot recorded out of order does not move the head back
+INSERT INTO content_snapshots (id, monitored_url_id, created_at, chain_hash)
+VALUES ('00000000-0000-0000-0000-000000000013', '00000000-0000-0000-0000-000000000001', now() - interval '2 hours', 'hash-0');
+
+SELECT is(
+  (SELECT snapshot_id FROM chain_heads WHERE monitored_url_id = '00000000-0000-0000-0000-000000000001'),
+  '00000000-0000-0000-0000-000000000012'::uuid,
+  'an older snapshot does not move the head'
+);
+
+-- The dashboard uses the anon role, which is subject to RLS
+SET LOCAL ROLE anon;
+
+DELETE FROM content_snapshots WHERE id = '00000000-0000-0000-0000-000000000012';
+DELETE FROM chain_heads WHERE monitored_url_id = '00000000-0000-0000-0000-000000000001';
+
+SELECT throws_ok(
+  $$INSERT INTO pruned_snapshots (snapshot_id, monitored_url_id, chain_hash, snapshot_created_at)
+    VALUES ('00000000-0000-0000-0000-000000000012', '00000000-0000-0000-0000-000000000001', 'hash-2', now())$$,
+  '42501',
+  NULL,
+  'the app cannot log a deletion as pruned'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT chain_hash FROM chain_heads WHERE monitored_url_id = '00000000-0000-0000-0000-000000000001'),
+  'hash-2',
+  'the app cannot delete the head anchor'
+);
+
+SELECT is_empty(
+  $$SELECT 1 FROM content_snapshots WHERE id = '00000000-0000-0000-0000-000000000012'$$,
+  'the anchored snapshot itself can still be deleted, which verify-chain reports'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
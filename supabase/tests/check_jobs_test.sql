@@ -0,0 +1,61 @@
+-- Claiming check jobs. Run with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(5);
+
+INSERT INTO monitored_urls (id, url, is_active) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'https://example.com/active', true),
+  ('00000000-0000-0000-0000-000000000002', 'https://example.com/paused', false);
+
+INSERT INTO check_jobs (id, monitored_url_id) VALUES
+  ('00000000-0000-0000-0000-000000000011', '00000000-0000-0000-0000-000000000001'),
+  ('00000000-0000-0000-0000-000000000012', '00000000-0000-0000-0000-000000000002');
+
+SELECT results_eq(
+  $$SELECT id FROM claim_check_jobs(10, 60)$$,
+  $$VALUES ('00000000-0000-0000-0000-000000000011'::uuid)$$,
+  'only jobs of active URLs are claimed'
+);
+
+SELECT is(
+  (SELECT status FROM check_jobs WHERE id = '00000000-0000-0000-0000-000000000012'),
+  'queued'::check_job_status,
+  'the job of a paused URL stays queued'
+);
+
+UPDATE monitored_urls SET is_active = true WHERE id = '00000000-0000-0000-0000-000000000002';
+
+SELECT results_eq(
+  $$SELECT id FROM claim_check_jobs(10, 60)$$,
+  $$VALUES ('00000000-0000-0000-0000-000000000012'::uuid)$$,
+  'the job runs once the URL is resumed'
+);
+
+-- Jobs a run stopped waiting for: one whose check went on to store a snapshot, one whose did not
+INSERT INTO monitored_urls (id, url) VALUES
+  ('00000000-0000-0000-0000-000000000003', 'https://example.com/finished'),
+  ('00000000-0000-0000-0000-000000000004', 'https://example.com/lost');
+
+INSERT INTO check_jobs (id, monitored_url_id, status, started_at, lease_expires_at) VALUES
+  ('00000000-0000-0000-0000-000000000013', '00000000-0000-0000-0000-000000000003', 'running', now() - interval '20 minutes', now() - interval '1 minute'),
+  ('00000000-0000-0000-0000-000000000014', '00000000-0000-0000-0000-000000000004', 'running', now() - interval '20 minutes', now() - interval '1 minute');
+
+INSERT INTO content_snapshots (monitored_url_id, created_at)
+VALUES ('00000000-0000-0000-0000-000000000003', now() - interval '15 minutes');
+
+SELECT * FROM claim_check_jobs(10, 60);
+
+SELECT is(
+  (SELECT status FROM check_jobs WHERE id = '00000000-0000-0000-0000-000000000013'),
+  'succeeded'::check_job_status,
+  'a job whose check stored a snapshot after it started is settled as succeeded'
+);
+
+SELECT is(
+  (SELECT attempts FROM check_jobs WHERE id = '00000000-0000-0000-0000-000000000014'),
+  1,
+  'a job with no snapshot since it started counts as a failed attempt'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
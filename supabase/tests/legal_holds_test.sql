@@ -0,0 +1,76 @@
+-- Legal hold lifting and immutability. Run with: supabase test db
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(7);
+
+INSERT INTO monitored_urls (id, url)
+VALUES ('00000000-0000-0000-0000-000000000001', 'https://example.com/terms');
+
+INSERT INTO content_snapshots (id, monitored_url_id)
+VALUES ('00000000-0000-0000-0000-000000000011', '00000000-0000-0000-0000-000000000001');
+
+INSERT INTO legal_holds (id, scope, monitored_url_id, reason, placed_by)
+VALUES ('00000000-0000-0000-0000-000000000021', 'url', '00000000-0000-0000-0000-000000000001', 'Litigation', 'alice');
+
+INSERT INTO legal_holds (id, scope, monitored_url_id, snapshot_id, placed_by)
+VALUES ('00000000-0000-0000-0000-000000000022', 'snapshot', '00000000-0000-0000-0000-000000000001',
+        '00000000-0000-0000-0000-000000000011', 'alice');
+
+-- The dashboard uses the anon role, which is subject to RLS
+SET LOCAL ROLE anon;
+
+SELECT lives_ok(
+  $$UPDATE legal_holds SET lifted_by = 'bob', lifted_at = now()
+    WHERE id = '00000000-0000-0000-0000-000000000021'$$,
+  'an active hold can be lifted from the app'
+);
+
+SELECT throws_ok(
+  $$UPDATE legal_holds SET reason = 'Changed'
+    WHERE id = '00000000-0000-0000-0000-000000000022'$$,
+  'P0001',
+  NULL,
+  'an active hold cannot be edited without lifting it'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT lifted_by FROM legal_holds WHERE id = '00000000-0000-0000-0000-000000000021'),
+  'bob',
+  'the lift was stored'
+);
+
+-- The service role bypasses RLS, so the trigger has to hold on its own
+SELECT throws_ok(
+  $$UPDATE legal_holds SET placed_by = 'mallory', lifted_by = 'mallory', lifted_at = now()
+    WHERE id = '00000000-0000-0000-0000-000000000022'$$,
+  'P0001',
+  NULL,
+  'lifting cannot rewrite who placed the hold'
+);
+
+SELECT throws_ok(
+  $$UPDATE legal_holds SET lifted_by = 'carol'
+    WHERE id = '00000000-0000-0000-0000-000000000021'$$,
+  'P0001',
+  NULL,
+  'a lifted hold cannot be lifted again'
+);
+
+UPDATE legal_holds SET lifted_by = 'bob', lifted_at = now()
+WHERE id = '00000000-0000-0000-0000-000000000022';
+
+SELECT lives_ok(
+  $$DELETE FROM content_snapshots WHERE id = '00000000-0000-0000-0000-000000000011'$$,
+  'a snapshot whose hold was lifted can be deleted'
+);
+
+SELECT is(
+  (SELECT snapshot_id FROM legal_holds WHERE id = '00000000-0000-0000-0000-000000000022'),
+  NULL,
+  'the lifted hold keeps its record without the deleted snapshot'
+);
+
+SELECT * FROM finish();
+ROLLBACK;